@@ -1,5 +1,9 @@
-import React from "react";
-import { NavigationContainer } from "@react-navigation/native";
+import React, { useEffect, useRef } from "react";
+import {
+  LinkingOptions,
+  NavigationContainer,
+  createNavigationContainerRef,
+} from "@react-navigation/native";
 import { createStackNavigator } from "@react-navigation/stack";
 import { createBottomTabNavigator } from "@react-navigation/bottom-tabs";
 import { SafeAreaProvider } from "react-native-safe-area-context";
@@ -17,6 +21,11 @@ import { AuthProvider } from "./src/contexts/AuthContext";
 import { GroupProvider } from "./src/contexts/GroupContext";
 import { AppWrapper } from "./src/components/AppWrapper";
 import { getThemeColors } from "./src/utils/themes";
+import { notificationService } from "./src/services/notificationService";
+import {
+  INVITE_LINK_PREFIXES,
+  normalizeInviteCode,
+} from "./src/utils/inviteLinks";
 
 export type RootStackParamList = {
   MainTabs: undefined;
@@ -24,7 +33,7 @@ export type RootStackParamList = {
     groupId: string;
     isArchived?: boolean;
   };
-  JoinGroup: undefined;
+  JoinGroup: { code?: string } | undefined;
 };
 
 export type TabParamList = {
@@ -35,6 +44,22 @@ export type TabParamList = {
 };
 
 const Stack = createStackNavigator<RootStackParamList>();
+const navigationRef = createNavigationContainerRef<RootStackParamList>();
+
+// groupby://join/ABC123 and https://groupby.app/join/ABC123 open JoinGroup,
+// on top of MainTabs even when the link launched the app
+const linking: LinkingOptions<RootStackParamList> = {
+  prefixes: INVITE_LINK_PREFIXES,
+  config: {
+    initialRouteName: "MainTabs",
+    screens: {
+      JoinGroup: {
+        path: "join/:code",
+        parse: { code: normalizeInviteCode },
+      },
+    },
+  },
+};
 const Tab = createBottomTabNavigator<TabParamList>();
 
 const TabIcon: React.FC<{
@@ -154,8 +179,30 @@ const MainTabs: React.FC = () => {
 };
 
 const AppContent: React.FC = () => {
+  // Group opened from a notification before navigation was ready
+  const pendingGroupId = useRef<string | null>(null);
+
+  const openGroup = (groupId: string) => {
+    if (navigationRef.isReady()) {
+      navigationRef.navigate("GroupChat", { groupId });
+    } else {
+      pendingGroupId.current = groupId;
+    }
+  };
+
+  useEffect(() => notificationService.subscribeToNotificationOpens(openGroup), []);
+
   return (
-    <NavigationContainer>
+    <NavigationContainer
+      ref={navigationRef}
+      linking={linking}
+      onReady={() => {
+        if (pendingGroupId.current) {
+          openGroup(pendingGroupId.current);
+          pendingGroupId.current = null;
+        }
+      }}
+    >
       <Stack.Navigator
         initialRouteName="MainTabs"
         screenOptions={{
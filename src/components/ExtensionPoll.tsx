@@ -0,0 +1,171 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { ExtensionProposal, Group } from '../types';
+import { useTheme } from '../contexts/ThemeContext';
+import { getThemeColors } from '../utils/themes';
+import { MAX_GROUP_EXTENSIONS } from '../services/supabaseService';
+
+interface ExtensionPollProps {
+  group: Group;
+  proposal: ExtensionProposal | null;
+  currentUserId?: string;
+  onPropose: (hours: number) => void;
+  onVote: (approve: boolean) => void;
+}
+
+const EXTENSION_OPTIONS = [
+  { hours: 1, label: '+1時間' },
+  { hours: 24, label: '+1日' },
+];
+
+const formatExtension = (hours: number) =>
+  hours % 24 === 0 ? `${hours / 24}日` : `${hours}時間`;
+
+const ExtensionPoll: React.FC<ExtensionPollProps> = ({
+  group,
+  proposal,
+  currentUserId,
+  onPropose,
+  onVote,
+}) => {
+  const { theme } = useTheme();
+  const colors = getThemeColors(theme);
+
+  const openProposal = proposal?.status === 'open' ? proposal : null;
+  const extensionsLeft = MAX_GROUP_EXTENSIONS - (group.extensionCount || 0);
+  const canPropose =
+    group.settings.allowExtension &&
+    group.status === 'expiring_soon' &&
+    extensionsLeft > 0;
+
+  if (!openProposal && !canPropose) {
+    return null;
+  }
+
+  const handleProposePress = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    Alert.alert(
+      'グループの延長を提案',
+      `メンバーの承認で終了時刻を延長できます（残り${extensionsLeft}回）`,
+      [
+        ...EXTENSION_OPTIONS.map(option => ({
+          text: option.label,
+          onPress: () => onPropose(option.hours),
+        })),
+        { text: 'キャンセル', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  if (!openProposal) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.surface, borderColor: colors.warning }]}>
+        <View style={styles.info}>
+          <Text style={[styles.title, { color: colors.text }]}>
+            ⏰ このグループはまもなく終了します
+          </Text>
+        </View>
+        <TouchableOpacity
+          style={[styles.button, { backgroundColor: colors.primary }]}
+          onPress={handleProposePress}
+        >
+          <Text style={styles.buttonText}>延長を提案</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const approvals = openProposal.votes.filter(vote => vote.approve).length;
+  const rejections = openProposal.votes.length - approvals;
+  const ownVote = openProposal.votes.find(vote => vote.userId === currentUserId);
+  const proposer = group.members.find(member => member.id === openProposal.proposedBy);
+  const progress =
+    group.settings.extensionApproval === 'admin'
+      ? '管理者の承認待ち'
+      : `賛成 ${approvals}/${Math.ceil(
+          group.members.length * (group.settings.extensionQuorum ?? 0.5)
+        )}・反対 ${rejections}`;
+
+  const renderVoteButton = (approve: boolean, label: string) => {
+    const selected = ownVote?.approve === approve;
+    const tint = approve ? colors.success : colors.error;
+
+    return (
+      <TouchableOpacity
+        style={[
+          styles.button,
+          selected
+            ? { backgroundColor: tint }
+            : { borderWidth: 1, borderColor: tint },
+        ]}
+        onPress={() => {
+          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+          onVote(approve);
+        }}
+        disabled={selected}
+      >
+        <Text style={[styles.buttonText, !selected && { color: tint }]}>
+          {label}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.surface, borderColor: colors.primary }]}>
+      <View style={styles.info}>
+        <Text style={[styles.title, { color: colors.text }]}>
+          🗳 {proposer?.name || 'メンバー'}が{formatExtension(openProposal.extensionHours)}の延長を提案
+        </Text>
+        <Text style={[styles.progress, { color: colors.textSecondary }]}>
+          {progress}
+        </Text>
+      </View>
+      <View style={styles.actions}>
+        {renderVoteButton(true, '賛成')}
+        {renderVoteButton(false, '反対')}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 12,
+    marginTop: 8,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    gap: 8,
+  },
+  info: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  progress: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  button: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
+
+export default ExtensionPoll;
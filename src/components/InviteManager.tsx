@@ -0,0 +1,197 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { GroupInvite } from '../types';
+import { useTheme } from '../contexts/ThemeContext';
+import { getThemeColors } from '../utils/themes';
+import { formatInviteCode } from '../utils/inviteLinks';
+
+interface InviteManagerProps {
+  invites: GroupInvite[];
+  onCreate: (expiresInHours?: number, maxUses?: number) => void;
+  onRevoke: (invite: GroupInvite) => void;
+  onShare: (invite: GroupInvite) => void;
+}
+
+// undefined means no expiry / no limit
+const EXPIRY_OPTIONS: { hours?: number; label: string }[] = [
+  { hours: 1, label: '1時間' },
+  { hours: 24, label: '1日' },
+  { hours: 24 * 7, label: '7日' },
+  { label: '無期限' },
+];
+
+const MAX_USES_OPTIONS: { uses?: number; label: string }[] = [
+  { uses: 1, label: '1回' },
+  { uses: 10, label: '10回' },
+  { label: '無制限' },
+];
+
+const getInviteState = (invite: GroupInvite): string | null => {
+  if (invite.revoked) return '無効';
+  if (invite.expiresAt && invite.expiresAt.getTime() <= Date.now()) return '期限切れ';
+  if (invite.maxUses !== undefined && invite.useCount >= invite.maxUses) return '上限に達しました';
+  return null;
+};
+
+const formatExpiry = (expiresAt?: Date) =>
+  expiresAt
+    ? `${expiresAt.toLocaleString('ja-JP', {
+        month: 'numeric',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+      })}まで`
+    : '無期限';
+
+const InviteManager: React.FC<InviteManagerProps> = ({
+  invites,
+  onCreate,
+  onRevoke,
+  onShare,
+}) => {
+  const { theme } = useTheme();
+  const colors = getThemeColors(theme);
+
+  const handleCreatePress = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    Alert.alert('有効期限', '招待の有効期限を選んでください', [
+      ...EXPIRY_OPTIONS.map(expiry => ({
+        text: expiry.label,
+        onPress: () =>
+          Alert.alert('使用回数', '招待を使える回数を選んでください', [
+            ...MAX_USES_OPTIONS.map(maxUses => ({
+              text: maxUses.label,
+              onPress: () => onCreate(expiry.hours, maxUses.uses),
+            })),
+            { text: 'キャンセル', style: 'cancel' as const },
+          ]),
+      })),
+      { text: 'キャンセル', style: 'cancel' as const },
+    ]);
+  };
+
+  const handleRevokePress = (invite: GroupInvite) => {
+    Alert.alert(
+      '招待を無効化',
+      `招待コード ${formatInviteCode(invite.code)} は使えなくなります。続行しますか？`,
+      [
+        { text: 'キャンセル', style: 'cancel' },
+        { text: '無効化', style: 'destructive', onPress: () => onRevoke(invite) },
+      ]
+    );
+  };
+
+  return (
+    <View>
+      {invites.map(invite => {
+        const state = getInviteState(invite);
+        const uses =
+          invite.maxUses !== undefined
+            ? `${invite.useCount}/${invite.maxUses}回使用`
+            : `${invite.useCount}回使用`;
+
+        return (
+          <View
+            key={invite.id}
+            style={[styles.invite, { borderColor: colors.border }, !!state && styles.inactive]}
+          >
+            <View style={styles.info}>
+              <View style={styles.codeRow}>
+                <Text style={[styles.code, { color: colors.text }]}>{formatInviteCode(invite.code)}</Text>
+                {invite.isDefault && (
+                  <Text style={[styles.badge, { color: colors.primary, backgroundColor: colors.primary + '20' }]}>
+                    メイン
+                  </Text>
+                )}
+              </View>
+              <Text style={[styles.details, { color: colors.textSecondary }]}>
+                {state || formatExpiry(invite.expiresAt)}・{uses}
+              </Text>
+            </View>
+            {!state && (
+              <View style={styles.actions}>
+                <TouchableOpacity style={styles.action} onPress={() => onShare(invite)}>
+                  <Icon name="share-outline" size={20} color={colors.primary} />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.action} onPress={() => handleRevokePress(invite)}>
+                  <Icon name="ban-outline" size={20} color={colors.error} />
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        );
+      })}
+      <TouchableOpacity
+        style={[styles.createButton, { borderColor: colors.primary }]}
+        onPress={handleCreatePress}
+      >
+        <Icon name="add" size={18} color={colors.primary} />
+        <Text style={[styles.createButtonText, { color: colors.primary }]}>
+          招待を作成
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  invite: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  inactive: {
+    opacity: 0.5,
+  },
+  info: {
+    flex: 1,
+  },
+  codeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  code: {
+    fontSize: 16,
+    fontWeight: '600',
+    letterSpacing: 1,
+  },
+  badge: {
+    fontSize: 11,
+    fontWeight: '600',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 6,
+    overflow: 'hidden',
+  },
+  details: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  action: {
+    padding: 6,
+  },
+  createButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    gap: 6,
+  },
+  createButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default InviteManager;
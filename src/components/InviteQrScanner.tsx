@@ -0,0 +1,191 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Modal, View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { CameraView, useCameraPermissions, BarcodeScanningResult } from 'expo-camera';
+import * as Haptics from 'expo-haptics';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { useTheme } from '../contexts/ThemeContext';
+import { getThemeColors } from '../utils/themes';
+import { parseInviteLink } from '../utils/inviteLinks';
+
+interface InviteQrScannerProps {
+  visible: boolean;
+  onScanned: (code: string) => void;
+  onClose: () => void;
+}
+
+const INVALID_HINT_MS = 2000;
+
+const InviteQrScanner: React.FC<InviteQrScannerProps> = ({
+  visible,
+  onScanned,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+  const colors = getThemeColors(theme);
+  const [permission, requestPermission] = useCameraPermissions();
+  const [showInvalidHint, setShowInvalidHint] = useState(false);
+  // The camera reports the same code many times per second
+  const handled = useRef(false);
+  const lastInvalidData = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    handled.current = false;
+    lastInvalidData.current = null;
+    setShowInvalidHint(false);
+    if (permission && !permission.granted && permission.canAskAgain) {
+      requestPermission();
+    }
+  }, [visible, permission?.granted]);
+
+  useEffect(() => {
+    if (!showInvalidHint) return;
+
+    const timer = setTimeout(() => setShowInvalidHint(false), INVALID_HINT_MS);
+    return () => clearTimeout(timer);
+  }, [showInvalidHint]);
+
+  const handleBarcodeScanned = ({ data }: BarcodeScanningResult) => {
+    if (handled.current) return;
+
+    const code = parseInviteLink(data);
+    if (code) {
+      handled.current = true;
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      onScanned(code);
+    } else if (lastInvalidData.current !== data) {
+      lastInvalidData.current = data;
+      setShowInvalidHint(true);
+    }
+  };
+
+  const renderContent = () => {
+    if (!permission) {
+      return null;
+    }
+
+    if (!permission.granted) {
+      return (
+        <View style={styles.message}>
+          <Icon name="camera-outline" size={48} color="#FFFFFF" />
+          <Text style={styles.messageText}>
+            QRコードを読み取るにはカメラへのアクセスを許可してください
+          </Text>
+          {permission.canAskAgain && (
+            <TouchableOpacity
+              style={[styles.permissionButton, { backgroundColor: colors.primary }]}
+              onPress={requestPermission}
+            >
+              <Text style={styles.permissionButtonText}>カメラを許可</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      );
+    }
+
+    return (
+      <>
+        <CameraView
+          style={StyleSheet.absoluteFill}
+          facing="back"
+          barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+          onBarcodeScanned={handleBarcodeScanned}
+        />
+        <View style={styles.overlay} pointerEvents="none">
+          <View style={[styles.frame, { borderColor: colors.primary }]} />
+          <Text style={styles.hint}>
+            {showInvalidHint
+              ? '招待用のQRコードではありません'
+              : '招待QRコードを枠内に合わせてください'}
+          </Text>
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        {visible && renderContent()}
+        <SafeAreaView style={styles.header} edges={['top']}>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Icon name="close" size={28} color="#FFFFFF" />
+          </TouchableOpacity>
+        </SafeAreaView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  header: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    alignItems: 'flex-end',
+    paddingHorizontal: 16,
+  },
+  closeButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  frame: {
+    width: 240,
+    height: 240,
+    borderWidth: 3,
+    borderRadius: 24,
+  },
+  hint: {
+    marginTop: 24,
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  message: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    gap: 16,
+  },
+  messageText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  permissionButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 20,
+  },
+  permissionButtonText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
+
+export default InviteQrScanner;
@@ -0,0 +1,109 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { JoinRequest } from '../types';
+import { useTheme } from '../contexts/ThemeContext';
+import { getThemeColors } from '../utils/themes';
+
+interface JoinRequestListProps {
+  requests: JoinRequest[];
+  onResolve: (request: JoinRequest, approve: boolean) => void;
+}
+
+const JoinRequestList: React.FC<JoinRequestListProps> = ({ requests, onResolve }) => {
+  const { theme } = useTheme();
+  const colors = getThemeColors(theme);
+
+  if (requests.length === 0) {
+    return (
+      <Text style={[styles.empty, { color: colors.textSecondary }]}>
+        承認待ちのリクエストはありません
+      </Text>
+    );
+  }
+
+  const handleResolve = (request: JoinRequest, approve: boolean) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onResolve(request, approve);
+  };
+
+  return (
+    <View>
+      {requests.map(request => (
+        <View key={request.id} style={[styles.request, { borderColor: colors.border }]}>
+          <View style={styles.info}>
+            <Text style={[styles.name, { color: colors.text }]} numberOfLines={1}>
+              {request.userName || 'ユーザー'}
+            </Text>
+            <Text style={[styles.requestedAt, { color: colors.textSecondary }]}>
+              {request.createdAt.toLocaleString('ja-JP', {
+                month: 'numeric',
+                day: 'numeric',
+                hour: '2-digit',
+                minute: '2-digit',
+              })}にリクエスト
+            </Text>
+          </View>
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: colors.success }]}
+              onPress={() => handleResolve(request, true)}
+            >
+              <Text style={styles.buttonText}>承認</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, { borderWidth: 1, borderColor: colors.error }]}
+              onPress={() => handleResolve(request, false)}
+            >
+              <Icon name="close" size={16} color={colors.error} />
+            </TouchableOpacity>
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  empty: {
+    fontSize: 14,
+    marginTop: 4,
+  },
+  request: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  info: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  requestedAt: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  button: {
+    minWidth: 32,
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
+
+export default JoinRequestList;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Image,
@@ -9,29 +9,156 @@ import {
   Dimensions,
   ScrollView,
   ActivityIndicator,
+  StyleProp,
+  ViewStyle,
 } from 'react-native';
 import { Video, ResizeMode } from 'expo-av';
 import Icon from 'react-native-vector-icons/Ionicons';
 import { Attachment } from '../types';
 import { MediaStorageService } from '../services/mediaStorage';
+import { mediaUrlResolver, isStoragePath } from '../services/mediaUrlResolver';
+import { MEDIA_BUCKET, THUMBNAIL_BUCKET } from '../services/supabaseMediaStorage';
 
 interface MediaDisplayProps {
   attachments: Attachment[];
   isOwnMessage?: boolean;
+  groupId?: string; // Media is cached on the device for this group when set
 }
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
+// Where each of a message's files is loaded from, by "bucket/path"
+type MediaSources = Record<string, string | undefined>;
+
+const THUMBNAIL_SIZE = 150;
+const MAX_THUMBNAIL_SIDE = 200;
+
+/**
+ * Size a thumbnail to the media's aspect ratio (clamped so panoramas and
+ * tall screenshots stay readable); square when the size is unknown
+ */
+const getThumbnailSize = (attachment: Attachment) => {
+  if (!attachment.width || !attachment.height) {
+    return { width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE };
+  }
+
+  const ratio = Math.min(2, Math.max(0.5, attachment.width / attachment.height));
+  return ratio >= 1
+    ? { width: MAX_THUMBNAIL_SIDE, height: MAX_THUMBNAIL_SIDE / ratio }
+    : { width: MAX_THUMBNAIL_SIDE * ratio, height: MAX_THUMBNAIL_SIDE };
+};
+
+/**
+ * The cached copy of each file when there is one, otherwise its signed URL
+ */
+const resolveSources = (attachments: Attachment[]): MediaSources => {
+  const sources: MediaSources = {};
+  const resolve = (bucket: string, path?: string) => {
+    if (!path) return;
+    sources[`${bucket}/${path}`] =
+      (isStoragePath(path) && MediaStorageService.getCachedUri(bucket, path))
+      || mediaUrlResolver.getUrl(bucket, path);
+  };
+
+  for (const attachment of attachments) {
+    resolve(MEDIA_BUCKET, attachment.uri);
+    resolve(THUMBNAIL_BUCKET, attachment.thumbnailUri);
+  }
+  return sources;
+};
+
+const sameSources = (a: MediaSources, b: MediaSources) => {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key]);
+};
+
 export const MediaDisplay: React.FC<MediaDisplayProps> = ({ 
   attachments, 
-  isOwnMessage = false 
+  isOwnMessage = false,
+  groupId,
 }) => {
   const [selectedMedia, setSelectedMedia] = useState<Attachment | null>(null);
   const [videoStatus, setVideoStatus] = useState<any>({});
   const [imageLoading, setImageLoading] = useState<{[key: string]: boolean}>({});
+  const [sources, setSources] = useState(() => resolveSources(attachments));
+
+  // Re-render only when one of these files gets a new URL or lands in the cache
+  useEffect(() => {
+    const update = () => {
+      const next = resolveSources(attachments);
+      setSources(prev => (sameSources(prev, next) ? prev : next));
+    };
+
+    update();
+    const unsubscribeUrls = mediaUrlResolver.subscribe(update);
+    const unsubscribeCache = MediaStorageService.subscribe(update);
+    return () => {
+      unsubscribeUrls();
+      unsubscribeCache();
+    };
+  }, [attachments]);
+
+  // Sign storage paths, and sign them again before the URLs expire
+  useEffect(() => {
+    mediaUrlResolver.requestAttachments(attachments);
+
+    const refreshAt = mediaUrlResolver.getNextRefreshTime(attachments);
+    if (refreshAt === undefined) return;
+
+    const timer = setTimeout(
+      () => mediaUrlResolver.requestAttachments(attachments),
+      Math.max(0, refreshAt - Date.now())
+    );
+    return () => clearTimeout(timer);
+  }, [attachments, sources]);
+
+  // Keep images, poster frames and videos that were opened on the device
+  useEffect(() => {
+    if (!groupId) return;
+
+    const cache = (bucket: string, path?: string) => {
+      if (!path || !isStoragePath(path) || MediaStorageService.getCachedUri(bucket, path)) return;
+
+      const url = mediaUrlResolver.getUrl(bucket, path);
+      if (url) {
+        MediaStorageService.cacheRemoteFile(bucket, path, url, groupId);
+      }
+    };
+
+    for (const attachment of attachments) {
+      if (attachment.type !== 'video' || attachment.id === selectedMedia?.id) {
+        cache(MEDIA_BUCKET, attachment.uri);
+      }
+      cache(THUMBNAIL_BUCKET, attachment.thumbnailUri);
+    }
+  }, [attachments, sources, groupId, selectedMedia?.id]);
+
+  // Showing cached files keeps them from being evicted
+  useEffect(() => {
+    for (const attachment of attachments) {
+      if (isStoragePath(attachment.uri)) {
+        MediaStorageService.recordAccess(MEDIA_BUCKET, attachment.uri);
+      }
+      if (attachment.thumbnailUri && isStoragePath(attachment.thumbnailUri)) {
+        MediaStorageService.recordAccess(THUMBNAIL_BUCKET, attachment.thumbnailUri);
+      }
+    }
+  }, [attachments, sources]);
+
+  const getSourceUri = (bucket: string, path?: string) =>
+    path ? sources[`${bucket}/${path}`] : undefined;
+
+  const renderPlaceholder = (style: StyleProp<ViewStyle>) => (
+    <View style={[style, styles.loadingContainer]}>
+      <ActivityIndicator size="small" color="#999" />
+    </View>
+  );
 
   const renderThumbnail = (attachment: Attachment, index: number) => {
     const isVideo = attachment.type === 'video';
+    const thumbnailStyle = [styles.thumbnail, getThumbnailSize(attachment)];
+    const uri = getSourceUri(MEDIA_BUCKET, attachment.uri);
+    const posterUri = getSourceUri(THUMBNAIL_BUCKET, attachment.thumbnailUri);
     
     return (
       <TouchableOpacity
@@ -44,18 +171,33 @@ export const MediaDisplay: React.FC<MediaDisplayProps> = ({
       >
         {isVideo ? (
           <View style={styles.videoThumbnail}>
-            <Video
-              source={{ uri: attachment.uri }}
-              style={styles.thumbnail}
-              shouldPlay={false}
-              isLooping={false}
-              isMuted={true}
-              resizeMode={ResizeMode.COVER}
-            />
+            {attachment.thumbnailUri ? (
+              // The poster frame stands in until the video is opened
+              posterUri ? (
+                <Image
+                  source={{ uri: posterUri }}
+                  style={thumbnailStyle}
+                  resizeMode="cover"
+                />
+              ) : (
+                renderPlaceholder(thumbnailStyle)
+              )
+            ) : uri ? (
+              <Video
+                source={{ uri }}
+                style={thumbnailStyle}
+                shouldPlay={false}
+                isLooping={false}
+                isMuted={true}
+                resizeMode={ResizeMode.COVER}
+              />
+            ) : (
+              renderPlaceholder(thumbnailStyle)
+            )}
             <View style={styles.playButtonOverlay}>
               <Icon name="play-circle" size={40} color="white" />
             </View>
-            {attachment.duration && (
+            {!!attachment.duration && (
               <View style={styles.durationBadge}>
                 <Text style={styles.durationText}>
                   {formatDuration(attachment.duration)}
@@ -65,21 +207,19 @@ export const MediaDisplay: React.FC<MediaDisplayProps> = ({
           </View>
         ) : (
           <View>
-            {imageLoading[attachment.id] && (
-              <View style={[styles.thumbnail, styles.loadingContainer]}>
-                <ActivityIndicator size="small" color="#999" />
-              </View>
+            {(imageLoading[attachment.id] || !uri) && renderPlaceholder(thumbnailStyle)}
+            {uri && (
+              <Image
+                source={{ uri }}
+                style={thumbnailStyle}
+                resizeMode="cover"
+                onLoadStart={() => setImageLoading(prev => ({ ...prev, [attachment.id]: true }))}
+                onLoadEnd={() => setImageLoading(prev => ({ ...prev, [attachment.id]: false }))}
+              />
             )}
-            <Image
-              source={{ uri: attachment.uri }}
-              style={styles.thumbnail}
-              resizeMode="cover"
-              onLoadStart={() => setImageLoading(prev => ({ ...prev, [attachment.id]: true }))}
-              onLoadEnd={() => setImageLoading(prev => ({ ...prev, [attachment.id]: false }))}
-            />
           </View>
         )}
-        {attachment.fileSize && (
+        {!!attachment.fileSize && (
           <Text style={styles.fileSizeText}>
             {MediaStorageService.formatFileSize(attachment.fileSize)}
           </Text>
@@ -97,6 +237,7 @@ export const MediaDisplay: React.FC<MediaDisplayProps> = ({
 
   const renderFullScreenMedia = () => {
     if (!selectedMedia) return null;
+    const selectedUri = getSourceUri(MEDIA_BUCKET, selectedMedia.uri);
 
     return (
       <Modal
@@ -120,9 +261,11 @@ export const MediaDisplay: React.FC<MediaDisplayProps> = ({
             showsHorizontalScrollIndicator={false}
             showsVerticalScrollIndicator={false}
           >
-            {selectedMedia.type === 'video' ? (
+            {!selectedUri ? (
+              <ActivityIndicator size="large" color="white" />
+            ) : selectedMedia.type === 'video' ? (
               <Video
-                source={{ uri: selectedMedia.uri }}
+                source={{ uri: selectedUri }}
                 style={styles.fullScreenMedia}
                 useNativeControls
                 resizeMode={ResizeMode.CONTAIN}
@@ -132,7 +275,7 @@ export const MediaDisplay: React.FC<MediaDisplayProps> = ({
               />
             ) : (
               <Image
-                source={{ uri: selectedMedia.uri }}
+                source={{ uri: selectedUri }}
                 style={styles.fullScreenMedia}
                 resizeMode="contain"
               />
@@ -183,8 +326,6 @@ const styles = StyleSheet.create({
     marginLeft: 8,
   },
   thumbnail: {
-    width: 150,
-    height: 150,
     borderRadius: 8,
     backgroundColor: '#f0f0f0',
   },
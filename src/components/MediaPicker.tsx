@@ -52,7 +52,7 @@ export const MediaPicker: React.FC<MediaPickerProps> = ({
         fileSize: asset.fileSize,
         width: asset.width,
         height: asset.height,
-        duration: asset.duration || undefined,
+        duration: asset.duration ? asset.duration / 1000 : undefined, // Picker reports ms
       }));
       onMediaSelected(attachments);
     }
@@ -79,7 +79,7 @@ export const MediaPicker: React.FC<MediaPickerProps> = ({
         fileSize: asset.fileSize,
         width: asset.width,
         height: asset.height,
-        duration: asset.duration || undefined,
+        duration: asset.duration ? asset.duration / 1000 : undefined, // Picker reports ms
       }));
       onMediaSelected(attachments);
     }
@@ -6,6 +6,8 @@ import {
   TouchableOpacity,
   StyleSheet,
   Text,
+  StyleProp,
+  ViewStyle,
 } from 'react-native';
 import Icon from 'react-native-vector-icons/Ionicons';
 import { Attachment } from '../types';
@@ -13,19 +15,23 @@ import { MediaStorageService } from '../services/mediaStorage';
 
 interface MediaPreviewProps {
   attachments: Attachment[];
-  onRemoveAttachment: (attachmentId: string) => void;
+  onRemoveAttachment: (attachmentId: string) => void; // Also cancels an upload in progress
+  onRetryAttachment?: (attachment: Attachment) => void;
+  style?: StyleProp<ViewStyle>;
 }
 
 export const MediaPreview: React.FC<MediaPreviewProps> = ({
   attachments,
   onRemoveAttachment,
+  onRetryAttachment,
+  style,
 }) => {
   if (!attachments || attachments.length === 0) {
     return null;
   }
 
   return (
-    <View style={styles.container}>
+    <View style={[styles.container, style]}>
       <ScrollView
         horizontal
         showsHorizontalScrollIndicator={false}
@@ -38,18 +44,43 @@ export const MediaPreview: React.FC<MediaPreviewProps> = ({
               style={styles.previewImage}
               resizeMode="cover"
             />
-            {attachment.type === 'video' && (
+            {attachment.type === 'video' && !attachment.uploadStatus && (
               <View style={styles.videoIndicator}>
                 <Icon name="play-circle" size={24} color="white" />
               </View>
             )}
+            {attachment.uploadStatus === 'uploading' && (
+              <View style={styles.uploadOverlay}>
+                <Text style={styles.uploadText}>
+                  {Math.round((attachment.uploadProgress || 0) * 100)}%
+                </Text>
+                <View style={styles.progressTrack}>
+                  <View
+                    style={[
+                      styles.progressFill,
+                      { width: `${Math.round((attachment.uploadProgress || 0) * 100)}%` },
+                    ]}
+                  />
+                </View>
+              </View>
+            )}
+            {attachment.uploadStatus === 'failed' && (
+              <TouchableOpacity
+                style={styles.uploadOverlay}
+                onPress={() => onRetryAttachment?.(attachment)}
+                disabled={!onRetryAttachment}
+              >
+                <Icon name="refresh" size={24} color="white" />
+                <Text style={styles.uploadText}>再送信</Text>
+              </TouchableOpacity>
+            )}
             <TouchableOpacity
               style={styles.removeButton}
               onPress={() => onRemoveAttachment(attachment.id)}
             >
               <Icon name="close-circle" size={20} color="white" />
             </TouchableOpacity>
-            {attachment.fileSize && (
+            {!!attachment.fileSize && !attachment.uploadStatus && (
               <View style={styles.sizeLabel}>
                 <Text style={styles.sizeText}>
                   {MediaStorageService.formatFileSize(attachment.fileSize)}
@@ -111,4 +142,28 @@ const styles = StyleSheet.create({
     fontSize: 10,
     textAlign: 'center',
   },
+  uploadOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    borderRadius: 8,
+    gap: 6,
+  },
+  uploadText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  progressTrack: {
+    width: 56,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: 'white',
+  },
 });
\ No newline at end of file
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -6,16 +6,28 @@ import {
   TouchableOpacity,
 } from 'react-native';
 import Icon from 'react-native-vector-icons/Ionicons';
-import { Message, MessageStatus } from '../types';
+import { Attachment, ChatUser, Message, MessageStatus } from '../types';
 import { useTheme } from '../contexts/ThemeContext';
 import { getThemeColors } from '../utils/themes';
 import { MediaDisplay } from './MediaDisplay';
+import { MediaPreview } from './MediaPreview';
+import ReactionDetails, { groupReactionsByEmoji } from './ReactionDetails';
+import ReadReceiptDetails from './ReadReceiptDetails';
 
 interface MessageBubbleProps {
   message: Message;
   onReactionPress?: (message: Message) => void;
   onLongPress?: (message: Message) => void;
   onReaction?: (messageId: string, emoji: string) => Promise<void>;
+  replyToMessage?: Message; // Resolved parent when message.replyToId is set
+  onReplyPress?: (messageId: string) => void;
+  highlighted?: boolean;
+  onEditedPress?: (message: Message) => void;
+  readBy?: ChatUser[]; // Other members who have seen this message
+  unreadBy?: ChatUser[];
+  onRetryUpload?: (message: Message, attachment: Attachment) => void;
+  onCancelUpload?: (message: Message, attachmentId: string) => void;
+  groupId?: string; // Lets attachments be cached for offline viewing
 }
 
 const MessageBubble: React.FC<MessageBubbleProps> = ({
@@ -23,9 +35,26 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({
   onReactionPress,
   onLongPress,
   onReaction,
+  replyToMessage,
+  onReplyPress,
+  highlighted,
+  onEditedPress,
+  readBy = [],
+  unreadBy = [],
+  onRetryUpload,
+  onCancelUpload,
+  groupId,
 }) => {
   const { theme } = useTheme();
   const colors = getThemeColors(theme);
+  const [showReactionDetails, setShowReactionDetails] = useState(false);
+  const [showReadReceipts, setShowReadReceipts] = useState(false);
+  const reactionGroups = message.isDeleted
+    ? []
+    : groupReactionsByEmoji(message.reactions || []);
+  const attachments = message.isDeleted ? [] : message.attachments || [];
+  const uploadedAttachments = attachments.filter(a => !a.uploadStatus);
+  const pendingAttachments = attachments.filter(a => !!a.uploadStatus);
   const formatTime = (date: Date) => {
     const d = date instanceof Date ? date : new Date(date);
     return d.toLocaleTimeString('ja-JP', {
@@ -64,16 +93,94 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({
           {message.sender}
         </Text>
       )}
-      <View style={[
-        styles.bubble,
-        {
-          backgroundColor: message.isOwnMessage
-            ? colors.messageBubbleOwn
-            : colors.messageBubbleOther
-        },
-        message.status === 'pending' && styles.pendingBubble,
-      ]}>
-        {message.text ? (
+      <TouchableOpacity
+        activeOpacity={0.9}
+        disabled={!onLongPress}
+        onLongPress={() => onLongPress?.(message)}
+        style={[
+          styles.bubble,
+          {
+            backgroundColor: message.isOwnMessage
+              ? colors.messageBubbleOwn
+              : colors.messageBubbleOther
+          },
+          message.status === 'pending' && styles.pendingBubble,
+          highlighted && [styles.highlightedBubble, { borderColor: colors.warning }],
+        ]}
+      >
+        {message.replyToId && !message.isDeleted && (
+          <TouchableOpacity
+            disabled={!replyToMessage}
+            onPress={() => replyToMessage && onReplyPress?.(replyToMessage.id)}
+            style={[
+              styles.replyQuote,
+              {
+                borderLeftColor: message.isOwnMessage
+                  ? colors.messageTextOwn
+                  : colors.primary,
+              },
+            ]}
+          >
+            {replyToMessage ? (
+              <>
+                <Text
+                  style={[
+                    styles.replyQuoteSender,
+                    {
+                      color: message.isOwnMessage
+                        ? colors.messageTextOwn
+                        : colors.primary,
+                    },
+                  ]}
+                >
+                  {replyToMessage.sender}
+                </Text>
+                <Text
+                  numberOfLines={2}
+                  style={[
+                    styles.replyQuoteText,
+                    {
+                      color: message.isOwnMessage
+                        ? colors.messageTextOwn
+                        : colors.messageTextOther
+                    },
+                  ]}
+                >
+                  {replyToMessage.isDeleted
+                    ? 'このメッセージは削除されました'
+                    : replyToMessage.text || '📎 メディア'}
+                </Text>
+              </>
+            ) : (
+              <Text
+                style={[
+                  styles.replyQuoteText,
+                  styles.replyQuoteMissing,
+                  {
+                    color: message.isOwnMessage
+                      ? colors.messageTextOwn
+                      : colors.textSecondary
+                  },
+                ]}
+              >
+                元のメッセージは表示できません
+              </Text>
+            )}
+          </TouchableOpacity>
+        )}
+        {message.isDeleted ? (
+          <Text style={[
+            styles.messageText,
+            styles.deletedText,
+            {
+              color: message.isOwnMessage
+                ? colors.messageTextOwn
+                : colors.textSecondary
+            },
+          ]}>
+            このメッセージは削除されました
+          </Text>
+        ) : message.text ? (
           <Text style={[
             styles.messageText,
             {
@@ -86,33 +193,60 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({
             {message.text}
           </Text>
         ) : null}
-        {message.attachments && message.attachments.length > 0 && (
+        {uploadedAttachments.length > 0 && (
           <MediaDisplay
-            attachments={message.attachments}
+            attachments={uploadedAttachments}
             isOwnMessage={message.isOwnMessage}
+            groupId={groupId}
           />
         )}
-      </View>
+        {pendingAttachments.length > 0 && (
+          <MediaPreview
+            attachments={pendingAttachments}
+            onRemoveAttachment={(attachmentId) => onCancelUpload?.(message, attachmentId)}
+            onRetryAttachment={
+              onRetryUpload ? (attachment) => onRetryUpload(message, attachment) : undefined
+            }
+            style={styles.uploadPreview}
+          />
+        )}
+      </TouchableOpacity>
       
-      {message.reactions && message.reactions.length > 0 && (
+      {reactionGroups.length > 0 && (
         <TouchableOpacity 
-          onPress={() => onReactionPress?.(message)}
+          onPress={() => {
+            setShowReactionDetails(true);
+            onReactionPress?.(message);
+          }}
           style={styles.reactionsContainer}
         >
           <View style={[styles.reactionsBubble, { backgroundColor: colors.surface }]}>
-            {message.reactions.slice(0, 3).map((reaction, index) => (
-              <Text key={index} style={styles.reactionEmoji}>
-                {reaction.emoji}
-              </Text>
+            {reactionGroups.slice(0, 3).map(({ emoji, reactions }) => (
+              <View key={emoji} style={styles.reactionChip}>
+                <Text style={styles.reactionEmoji}>{emoji}</Text>
+                {reactions.length > 1 && (
+                  <Text style={[styles.reactionCount, { color: colors.textSecondary }]}>
+                    {reactions.length}
+                  </Text>
+                )}
+              </View>
             ))}
-            {message.reactions.length > 3 && (
+            {reactionGroups.length > 3 && (
               <Text style={[styles.reactionCount, { color: colors.textSecondary }]}>
-                +{message.reactions.length - 3}
+                +{reactionGroups.length - 3}
               </Text>
             )}
           </View>
         </TouchableOpacity>
       )}
+
+      {showReactionDetails && (
+        <ReactionDetails
+          visible={showReactionDetails}
+          reactions={message.reactions || []}
+          onClose={() => setShowReactionDetails(false)}
+        />
+      )}
       
       <View style={styles.metaContainer}>
         <Text style={[
@@ -122,6 +256,23 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({
         ]}>
           {formatTime(message.timestamp)}
         </Text>
+        {message.editedAt && !message.isDeleted && (
+          <TouchableOpacity
+            disabled={!onEditedPress}
+            onPress={() => onEditedPress?.(message)}
+          >
+            <Text style={[styles.editedLabel, { color: colors.textSecondary }]}>
+              編集済み
+            </Text>
+          </TouchableOpacity>
+        )}
+        {message.isOwnMessage && message.status === 'sent' && readBy.length > 0 && (
+          <TouchableOpacity onPress={() => setShowReadReceipts(true)}>
+            <Text style={[styles.readReceipt, { color: colors.textSecondary }]}>
+              既読 {readBy.length}
+            </Text>
+          </TouchableOpacity>
+        )}
         {message.isOwnMessage && message.status && (
           <View style={styles.statusIcon}>
             {getStatusIcon(message.status, getStatusColor(message.status))}
@@ -129,6 +280,15 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({
         )}
       </View>
       
+      {showReadReceipts && (
+        <ReadReceiptDetails
+          visible={showReadReceipts}
+          readBy={readBy}
+          unreadBy={unreadBy}
+          onClose={() => setShowReadReceipts(false)}
+        />
+      )}
+
       {message.status === 'pending' && message.deliveryTime && (
         <Text style={[
           styles.deliveryTime,
@@ -146,6 +306,11 @@ const styles = StyleSheet.create({
   messageContainer: {
     marginVertical: 6,
   },
+  uploadPreview: {
+    backgroundColor: 'transparent',
+    borderTopWidth: 0,
+    paddingBottom: 0,
+  },
   ownMessage: {
     alignItems: 'flex-end',
   },
@@ -173,6 +338,27 @@ const styles = StyleSheet.create({
   pendingBubble: {
     opacity: 0.7,
   },
+  highlightedBubble: {
+    borderWidth: 2,
+  },
+  replyQuote: {
+    borderLeftWidth: 3,
+    paddingLeft: 8,
+    marginBottom: 6,
+    opacity: 0.85,
+  },
+  replyQuoteSender: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 1,
+  },
+  replyQuoteText: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  replyQuoteMissing: {
+    fontStyle: 'italic',
+  },
   messageText: {
     fontSize: 16,
     lineHeight: 22,
@@ -180,6 +366,18 @@ const styles = StyleSheet.create({
   pendingText: {
     fontStyle: 'italic',
   },
+  deletedText: {
+    fontStyle: 'italic',
+    opacity: 0.8,
+  },
+  editedLabel: {
+    fontSize: 11,
+    opacity: 0.7,
+  },
+  readReceipt: {
+    fontSize: 11,
+    fontWeight: '500',
+  },
   metaContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -224,6 +422,11 @@ const styles = StyleSheet.create({
     shadowRadius: 3,
     elevation: 2,
   },
+  reactionChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 2,
+  },
   reactionEmoji: {
     fontSize: 16,
     marginHorizontal: 2,
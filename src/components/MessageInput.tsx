@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   TextInput,
@@ -10,25 +10,61 @@ import { useTheme } from '../contexts/ThemeContext';
 import { getThemeColors } from '../utils/themes';
 import { MediaPicker } from './MediaPicker';
 import { MediaPreview } from './MediaPreview';
-import { Attachment } from '../types';
+import { Attachment, Message } from '../types';
+import Icon from 'react-native-vector-icons/Ionicons';
 
 interface MessageInputProps {
   onSendMessage: (message: string, attachments?: Attachment[]) => void;
   showTypingIndicator?: boolean;
   recipientName?: string;
+  replyTo?: Message | null;
+  onCancelReply?: () => void;
+  editingMessage?: Message | null;
+  onCancelEdit?: () => void;
+  onTypingChange?: (isTyping: boolean) => void;
 }
 
 const MessageInput: React.FC<MessageInputProps> = ({
   onSendMessage,
   showTypingIndicator,
-  recipientName
+  recipientName,
+  replyTo,
+  onCancelReply,
+  editingMessage,
+  onCancelEdit,
+  onTypingChange,
 }) => {
   const [message, setMessage] = useState('');
   const [attachments, setAttachments] = useState<Attachment[]>([]);
   const { theme } = useTheme();
   const colors = getThemeColors(theme);
 
+  // Prefill the composer with the text being edited
+  useEffect(() => {
+    setMessage(editingMessage ? editingMessage.text : '');
+  }, [editingMessage?.id]);
+
+  const handleCancelEdit = () => {
+    setMessage('');
+    onCancelEdit?.();
+  };
+
+  const handleChangeText = (text: string) => {
+    setMessage(text);
+    onTypingChange?.(text.trim().length > 0);
+  };
+
   const handleSend = () => {
+    onTypingChange?.(false);
+
+    if (editingMessage) {
+      if (message.trim()) {
+        onSendMessage(message);
+        setMessage('');
+      }
+      return;
+    }
+
     if (message.trim() || attachments.length > 0) {
       onSendMessage(message, attachments);
       setMessage('');
@@ -49,6 +85,50 @@ const MessageInput: React.FC<MessageInputProps> = ({
       backgroundColor: colors.surface,
       borderTopColor: colors.border,
     }]}>
+      {showTypingIndicator && recipientName && (
+        <Text
+          style={[styles.typingIndicator, { color: colors.textSecondary }]}
+          numberOfLines={1}
+        >
+          {recipientName}が入力中…
+        </Text>
+      )}
+      {editingMessage && (
+        <View style={[styles.replyBanner, { borderLeftColor: colors.primary }]}>
+          <View style={styles.replyBannerText}>
+            <Text style={[styles.replyBannerSender, { color: colors.primary }]}>
+              メッセージを編集
+            </Text>
+            <Text
+              style={[styles.replyBannerPreview, { color: colors.textSecondary }]}
+              numberOfLines={1}
+            >
+              {editingMessage.text}
+            </Text>
+          </View>
+          <TouchableOpacity onPress={handleCancelEdit} style={styles.replyBannerClose}>
+            <Icon name="close" size={18} color={colors.textSecondary} />
+          </TouchableOpacity>
+        </View>
+      )}
+      {replyTo && !editingMessage && (
+        <View style={[styles.replyBanner, { borderLeftColor: colors.primary }]}>
+          <View style={styles.replyBannerText}>
+            <Text style={[styles.replyBannerSender, { color: colors.primary }]}>
+              {replyTo.sender}への返信
+            </Text>
+            <Text
+              style={[styles.replyBannerPreview, { color: colors.textSecondary }]}
+              numberOfLines={1}
+            >
+              {replyTo.text || '📎 メディア'}
+            </Text>
+          </View>
+          <TouchableOpacity onPress={onCancelReply} style={styles.replyBannerClose}>
+            <Icon name="close" size={18} color={colors.textSecondary} />
+          </TouchableOpacity>
+        </View>
+      )}
       <MediaPreview
         attachments={attachments}
         onRemoveAttachment={handleRemoveAttachment}
@@ -56,14 +136,16 @@ const MessageInput: React.FC<MessageInputProps> = ({
       <View style={[styles.inputContainer, {
         backgroundColor: colors.inputBackground,
       }]}>
-        <MediaPicker
-          onMediaSelected={handleMediaSelected}
-          color={colors.primary}
-        />
+        {!editingMessage && (
+          <MediaPicker
+            onMediaSelected={handleMediaSelected}
+            color={colors.primary}
+          />
+        )}
         <TextInput
           style={[styles.textInput, { color: colors.text }]}
           value={message}
-          onChangeText={setMessage}
+          onChangeText={handleChangeText}
           placeholder="メッセージを入力..."
           placeholderTextColor={colors.textSecondary}
           multiline
@@ -88,7 +170,7 @@ const MessageInput: React.FC<MessageInputProps> = ({
               ? styles.sendButtonTextActive 
               : [styles.sendButtonTextInactive, { color: colors.textSecondary }]
           ]}>
-            送信
+            {editingMessage ? '保存' : '送信'}
           </Text>
         </TouchableOpacity>
       </View>
@@ -102,6 +184,32 @@ const styles = StyleSheet.create({
     paddingHorizontal: 16,
     paddingVertical: 8,
   },
+  typingIndicator: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    marginBottom: 6,
+  },
+  replyBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderLeftWidth: 3,
+    paddingLeft: 10,
+    paddingVertical: 4,
+    marginBottom: 8,
+  },
+  replyBannerText: {
+    flex: 1,
+  },
+  replyBannerSender: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  replyBannerPreview: {
+    fontSize: 13,
+  },
+  replyBannerClose: {
+    padding: 6,
+  },
   inputContainer: {
     flexDirection: 'row',
     alignItems: 'flex-end',
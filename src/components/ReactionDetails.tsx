@@ -0,0 +1,123 @@
+import React from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+} from 'react-native';
+import { MessageReaction } from '../types';
+import { useTheme } from '../contexts/ThemeContext';
+import { getThemeColors } from '../utils/themes';
+
+interface ReactionDetailsProps {
+  visible: boolean;
+  reactions: MessageReaction[];
+  onClose: () => void;
+}
+
+export const groupReactionsByEmoji = (reactions: MessageReaction[]) => {
+  const groups: { emoji: string; reactions: MessageReaction[] }[] = [];
+  for (const reaction of reactions) {
+    const group = groups.find(g => g.emoji === reaction.emoji);
+    if (group) {
+      group.reactions.push(reaction);
+    } else {
+      groups.push({ emoji: reaction.emoji, reactions: [reaction] });
+    }
+  }
+  return groups;
+};
+
+const ReactionDetails: React.FC<ReactionDetailsProps> = ({
+  visible,
+  reactions,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+  const colors = getThemeColors(theme);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        style={styles.overlay}
+        activeOpacity={1}
+        onPress={onClose}
+      >
+        <View style={[styles.container, { backgroundColor: colors.surface }]}>
+          <Text style={[styles.title, { color: colors.text }]}>
+            リアクション
+          </Text>
+          <ScrollView contentContainerStyle={styles.list}>
+            {groupReactionsByEmoji(reactions).map(({ emoji, reactions: group }) => (
+              <View key={emoji} style={styles.row}>
+                <Text style={styles.emoji}>{emoji}</Text>
+                <Text style={[styles.names, { color: colors.text }]}>
+                  {group.map(r => r.userName || '不明なユーザー').join('、')}
+                </Text>
+                <Text style={[styles.count, { color: colors.textSecondary }]}>
+                  {group.length}
+                </Text>
+              </View>
+            ))}
+          </ScrollView>
+        </View>
+      </TouchableOpacity>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  container: {
+    width: '90%',
+    maxWidth: 400,
+    maxHeight: '70%',
+    borderRadius: 20,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  list: {
+    gap: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  emoji: {
+    fontSize: 22,
+    marginRight: 12,
+  },
+  names: {
+    flex: 1,
+    fontSize: 15,
+  },
+  count: {
+    fontSize: 13,
+    fontWeight: '500',
+    marginLeft: 8,
+  },
+});
+
+export default ReactionDetails;
@@ -0,0 +1,133 @@
+import React from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+} from 'react-native';
+import { ChatUser } from '../types';
+import { useTheme } from '../contexts/ThemeContext';
+import { getThemeColors } from '../utils/themes';
+
+interface ReadReceiptDetailsProps {
+  visible: boolean;
+  readBy: ChatUser[];
+  unreadBy: ChatUser[];
+  onClose: () => void;
+}
+
+const ReadReceiptDetails: React.FC<ReadReceiptDetailsProps> = ({
+  visible,
+  readBy,
+  unreadBy,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+  const colors = getThemeColors(theme);
+
+  const renderMembers = (members: ChatUser[]) =>
+    members.map(member => (
+      <View key={member.id} style={styles.row}>
+        <View style={[styles.avatar, { backgroundColor: colors.primary }]}>
+          <Text style={styles.avatarText}>
+            {member.name.charAt(0).toUpperCase()}
+          </Text>
+        </View>
+        <Text style={[styles.name, { color: colors.text }]}>{member.name}</Text>
+      </View>
+    ));
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        style={styles.overlay}
+        activeOpacity={1}
+        onPress={onClose}
+      >
+        <View style={[styles.container, { backgroundColor: colors.surface }]}>
+          <Text style={[styles.title, { color: colors.text }]}>
+            既読 {readBy.length}/{readBy.length + unreadBy.length}
+          </Text>
+          <ScrollView contentContainerStyle={styles.list}>
+            <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+              既読
+            </Text>
+            {renderMembers(readBy)}
+            {unreadBy.length > 0 && (
+              <>
+                <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+                  未読
+                </Text>
+                {renderMembers(unreadBy)}
+              </>
+            )}
+          </ScrollView>
+        </View>
+      </TouchableOpacity>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  container: {
+    width: '90%',
+    maxWidth: 400,
+    maxHeight: '70%',
+    borderRadius: 20,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  list: {
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  avatar: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  avatarText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  name: {
+    flex: 1,
+    fontSize: 15,
+  },
+});
+
+export default ReadReceiptDetails;
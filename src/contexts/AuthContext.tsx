@@ -2,6 +2,8 @@ import React, { createContext, useContext, useState, useEffect, ReactNode } from
 import { User, Session, AuthError } from '@supabase/supabase-js';
 import { authService, AuthState, SignUpData, SignInData, UserProfile } from '../services/authService';
 import { ChatUser } from '../types';
+import { supabaseService } from '../services/supabaseService';
+import { notificationService } from '../services/notificationService';
 
 interface AuthContextType {
   user: User | null;
@@ -130,6 +132,12 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   };
 
   const signOut = async () => {
+    // Stop pushes for this device while the session can still delete the token
+    const pushToken = notificationService.getCachedPushToken();
+    if (pushToken) {
+      await supabaseService.unregisterPushToken(pushToken);
+    }
+
     const result = await authService.signOut();
     if (!result.error) {
       setProfile(null);
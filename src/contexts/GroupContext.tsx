@@ -1,7 +1,18 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react';
-import { Group, Message, GroupSettings } from '../types';
-import { supabaseService, GroupCreationData, MessageCreationData } from '../services/supabaseService';
+import { AppState, Platform } from 'react-native';
+import { Attachment, Group, GroupInvite, GroupInvitePreview, JoinGroupResult, JoinRequest, Message, MessageEdit, ReadCursor, ChatUser, PresenceStatus, GroupSettings, ExtensionProposal } from '../types';
+import {
+  supabaseService,
+  GroupCreationData,
+  MessageCreationData,
+  ARCHIVED_GROUPS_PAGE_SIZE,
+} from '../services/supabaseService';
+import { notificationService } from '../services/notificationService';
+import { supabaseMediaStorage } from '../services/supabaseMediaStorage';
+import { mediaUrlResolver } from '../services/mediaUrlResolver';
+import { MediaStorageService } from '../services/mediaStorage';
 import { useAuth } from './AuthContext';
+import { useTheme } from './ThemeContext';
 
 interface GroupContextType {
   activeGroups: Group[];
@@ -9,21 +20,52 @@ interface GroupContextType {
   loading: boolean;
   error: string | null;
   refreshing: boolean;
+  hasMoreArchivedGroups: boolean;
   // Group operations
   loadGroups: () => Promise<void>;
+  loadMoreArchivedGroups: () => Promise<void>;
   createGroup: (data: GroupCreationData) => Promise<Group | null>;
-  joinGroupWithCode: (inviteCode: string) => Promise<Group | null>;
+  joinGroupWithCode: (inviteCode: string) => Promise<JoinGroupResult>;
+  previewGroupByInvite: (inviteCode: string) => Promise<GroupInvitePreview | null>;
   leaveGroup: (groupId: string) => Promise<boolean>;
+  removeMember: (groupId: string, memberId: string) => Promise<boolean>;
+  regenerateInviteCode: (groupId: string) => Promise<string | null>;
+  // Invite management (admins)
+  loadGroupInvites: (groupId: string) => Promise<GroupInvite[]>;
+  createGroupInvite: (groupId: string, expiresInHours?: number, maxUses?: number) => Promise<GroupInvite | null>;
+  revokeGroupInvite: (invite: GroupInvite) => Promise<boolean>;
+  // Join approval (admins resolve, requesters wait)
+  resolveJoinRequest: (requestId: string, approve: boolean) => Promise<boolean>;
   // Message operations
   loadMessages: (groupId: string) => Promise<Message[]>;
   sendMessage: (data: MessageCreationData) => Promise<Message | null>;
+  addReaction: (messageId: string, emoji: string) => Promise<boolean>;
+  removeReaction: (messageId: string, emoji: string) => Promise<boolean>;
+  editMessage: (messageId: string, content: string) => Promise<boolean>;
+  deleteMessage: (messageId: string) => Promise<boolean>;
+  uploadAttachment: (messageId: string, attachment: Attachment, onProgress?: (progress: number) => void) => Promise<string | null>;
+  cancelAttachmentUpload: (attachmentId: string) => void;
+  holdMessageForUploads: (messageId: string, attachmentIds: string[]) => Promise<void>;
+  getMessageEditHistory: (messageId: string) => Promise<MessageEdit[]>;
+  markMessagesRead: (messageId: string) => Promise<boolean>;
+  markGroupRead: (groupId: string) => Promise<void>;
+  setGroupMute: (groupId: string, until: Date | null) => Promise<boolean>;
+  // Lifetime extension
+  proposeExtension: (groupId: string, hours: number) => Promise<boolean>;
+  voteOnExtension: (proposalId: string, approve: boolean) => Promise<boolean>;
   // Real-time subscriptions
   subscribeToGroup: (groupId: string, onUpdate: (group: Group) => void) => () => void;
   subscribeToMessages: (groupId: string, onMessage: (messages: Message[]) => void) => () => void;
+  subscribeToReadCursors: (groupId: string, onUpdate: (cursors: ReadCursor[]) => void) => () => void;
+  subscribeToTyping: (groupId: string, onTyping: (users: ChatUser[]) => void) => () => void;
+  sendTypingState: (groupId: string, isTyping: boolean) => void;
+  subscribeToPresence: (groupId: string, onPresence: (presence: Record<string, PresenceStatus>) => void) => () => void;
+  subscribeToExtensionProposals: (groupId: string, onChange: (proposal: ExtensionProposal | null) => void) => () => void;
+  subscribeToJoinRequests: (groupId: string, onChange: (requests: JoinRequest[]) => void) => () => void;
+  subscribeToOwnJoinRequests: (onResolve: (groupId: string, approved: boolean) => void) => () => void;
   // Utility functions
   refreshGroups: () => Promise<void>;
   getGroupById: (groupId: string) => Group | null;
-  processExpiredGroups: () => Promise<void>;
 }
 
 const GroupContext = createContext<GroupContextType | undefined>(undefined);
@@ -46,8 +88,11 @@ export const GroupProvider: React.FC<GroupProviderProps> = ({ children }) => {
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [hasMoreArchivedGroups, setHasMoreArchivedGroups] = useState(false);
+  const [loadingMoreArchived, setLoadingMoreArchived] = useState(false);
 
-  const { isAuthenticated } = useAuth();
+  const { isAuthenticated, user, chatUser } = useAuth();
+  const { settings } = useTheme();
 
   // Load groups when authenticated
   useEffect(() => {
@@ -57,19 +102,110 @@ export const GroupProvider: React.FC<GroupProviderProps> = ({ children }) => {
       // Clear groups when not authenticated
       setActiveGroups([]);
       setArchivedGroups([]);
+      mediaUrlResolver.clear();
       setLoading(false);
     }
   }, [isAuthenticated]);
 
-  // Process expired groups periodically
+  // Keep unread badges in sync with the server-maintained counts
+  useEffect(() => {
+    if (!isAuthenticated || !user) return;
+
+    return supabaseService.subscribeToUnreadCounts(user.id, (groupId, unreadCount) => {
+      setActiveGroups(prev => prev.map(group =>
+        group.id === groupId ? { ...group, unreadCount } : group
+      ));
+    });
+  }, [isAuthenticated, user?.id]);
+
+  // Register this device for message pushes
+  useEffect(() => {
+    if (!isAuthenticated || !user) return;
+
+    (async () => {
+      await notificationService.configure();
+      const token = await notificationService.getPushToken();
+      if (token) {
+        await supabaseService.registerPushToken(token, Platform.OS);
+      }
+    })();
+  }, [isAuthenticated, user?.id]);
+
+  // Finish media uploads that were interrupted by the app closing
+  useEffect(() => {
+    if (!isAuthenticated || !user) return;
+
+    supabaseMediaStorage.resumePendingUploads();
+  }, [isAuthenticated, user?.id]);
+
+  // Keep cached media within the size the user allows
+  useEffect(() => {
+    MediaStorageService.setSizeLimit(settings.mediaCacheLimitMB * 1024 * 1024);
+  }, [settings.mediaCacheLimitMB]);
+
+  // Only the fields that affect expiry warnings, so new messages don't
+  // trigger a reschedule
+  const expiryScheduleKey = activeGroups
+    .map(group => [
+      group.id,
+      group.name,
+      group.status,
+      group.settings.warnBeforeExpiry,
+      group.settings.expirationTime?.getTime(),
+    ].join(':'))
+    .join('|');
+  const expiryWarningMinutesKey = settings.expiryWarningMinutes.join(',');
+
+  // Keep local expiry warnings in line with the groups, extensions included
+  useEffect(() => {
+    const enabled = isAuthenticated && settings.showExpirationWarnings;
+    if (enabled) {
+      notificationService.configure();
+    }
+    notificationService.syncExpiryWarnings(activeGroups, settings.expiryWarningMinutes, enabled);
+  }, [isAuthenticated, expiryScheduleKey, settings.showExpirationWarnings, expiryWarningMinutesKey]);
+
+  // Announce away while the app is in the background
   useEffect(() => {
     if (!isAuthenticated) return;
 
-    const interval = setInterval(() => {
-      processExpiredGroups();
-    }, 60000); // Check every minute
+    const subscription = AppState.addEventListener('change', (state) => {
+      supabaseService.setPresenceStatus(state === 'active' ? 'online' : 'away');
+    });
 
-    return () => clearInterval(interval);
+    return () => subscription.remove();
+  }, [isAuthenticated]);
+
+  // Expiry runs on the server; reload when one of our groups is archived
+  // and patch status and expiry in place otherwise (e.g. after an extension)
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    return supabaseService.subscribeToGroupStatusChanges(async (groupId, change) => {
+      if (change.status !== 'archived') {
+        setActiveGroups(prev => prev.map(group =>
+          group.id === groupId
+            ? {
+                ...group,
+                status: change.status,
+                extensionCount: change.extensionCount,
+                settings: { ...group.settings, expirationTime: change.expirationTime },
+              }
+            : group
+        ));
+        return;
+      }
+
+      MediaStorageService.purgeGroups([groupId]);
+      try {
+        const { activeGroups: active, archivedGroups: archived } = await supabaseService.loadGroups();
+        setActiveGroups(active);
+        setArchivedGroups(archived);
+        setHasMoreArchivedGroups(archived.length >= ARCHIVED_GROUPS_PAGE_SIZE);
+      } catch (err) {
+        console.error('Error reloading archived group:', err);
+      }
+    });
   }, [isAuthenticated]);
 
   const loadGroups = useCallback(async () => {
@@ -83,6 +219,9 @@ export const GroupProvider: React.FC<GroupProviderProps> = ({ children }) => {
       const { activeGroups: active, archivedGroups: archived } = await supabaseService.loadGroups();
       setActiveGroups(active);
       setArchivedGroups(archived);
+      setHasMoreArchivedGroups(archived.length >= ARCHIVED_GROUPS_PAGE_SIZE);
+      // Groups may have been archived while the app was closed
+      MediaStorageService.purgeGroups(archived.map(group => group.id));
     } catch (err) {
       console.error('Error loading groups:', err);
       setError('Failed to load groups');
@@ -100,6 +239,8 @@ export const GroupProvider: React.FC<GroupProviderProps> = ({ children }) => {
       const { activeGroups: active, archivedGroups: archived } = await supabaseService.loadGroups();
       setActiveGroups(active);
       setArchivedGroups(archived);
+      setHasMoreArchivedGroups(archived.length >= ARCHIVED_GROUPS_PAGE_SIZE);
+      MediaStorageService.purgeGroups(archived.map(group => group.id));
     } catch (err) {
       console.error('Error refreshing groups:', err);
       setError('Failed to refresh groups');
@@ -108,6 +249,26 @@ export const GroupProvider: React.FC<GroupProviderProps> = ({ children }) => {
     }
   }, [isAuthenticated]);
 
+  const loadMoreArchivedGroups = useCallback(async () => {
+    if (!isAuthenticated || !hasMoreArchivedGroups || loadingMoreArchived) return;
+
+    try {
+      setLoadingMoreArchived(true);
+      setError(null);
+      const page = await supabaseService.loadArchivedGroups(archivedGroups.length);
+      setArchivedGroups(prev => [
+        ...prev,
+        ...page.filter(group => !prev.some(g => g.id === group.id)),
+      ]);
+      setHasMoreArchivedGroups(page.length >= ARCHIVED_GROUPS_PAGE_SIZE);
+    } catch (err) {
+      console.error('Error loading archived groups:', err);
+      setError('Failed to load archived groups');
+    } finally {
+      setLoadingMoreArchived(false);
+    }
+  }, [isAuthenticated, hasMoreArchivedGroups, loadingMoreArchived, archivedGroups.length]);
+
   const createGroup = useCallback(async (data: GroupCreationData): Promise<Group | null> => {
     if (!isAuthenticated) {
       setError('You must be logged in to create groups');
@@ -132,17 +293,18 @@ export const GroupProvider: React.FC<GroupProviderProps> = ({ children }) => {
     }
   }, [isAuthenticated]);
 
-  const joinGroupWithCode = useCallback(async (inviteCode: string): Promise<Group | null> => {
+  const joinGroupWithCode = useCallback(async (inviteCode: string): Promise<JoinGroupResult> => {
     if (!isAuthenticated) {
       setError('You must be logged in to join groups');
-      return null;
+      return { status: 'failed' };
     }
 
     try {
       setError(null);
-      const group = await supabaseService.joinGroupWithCode(inviteCode);
+      const result = await supabaseService.joinGroupWithCode(inviteCode);
 
-      if (group) {
+      if (result.status === 'joined') {
+        const { group } = result;
         setActiveGroups(prev => {
           // Check if group already exists
           const exists = prev.some(g => g.id === group.id);
@@ -151,14 +313,25 @@ export const GroupProvider: React.FC<GroupProviderProps> = ({ children }) => {
           }
           return [group, ...prev];
         });
-        return group;
+        return result;
       }
 
       setError('Failed to join group');
-      return null;
+      return result;
     } catch (err) {
       console.error('Error joining group:', err);
       setError('Failed to join group');
+      return { status: 'failed' };
+    }
+  }, [isAuthenticated]);
+
+  const previewGroupByInvite = useCallback(async (inviteCode: string): Promise<GroupInvitePreview | null> => {
+    if (!isAuthenticated) return null;
+
+    try {
+      return await supabaseService.previewGroupByInvite(inviteCode);
+    } catch (err) {
+      console.error('Error previewing group:', err);
       return null;
     }
   }, [isAuthenticated]);
@@ -174,6 +347,8 @@ export const GroupProvider: React.FC<GroupProviderProps> = ({ children }) => {
       const success = await supabaseService.leaveGroup(groupId);
 
       if (success) {
+        notificationService.cancelGroupWarnings(groupId);
+        MediaStorageService.purgeGroups([groupId]);
         setActiveGroups(prev => prev.filter(g => g.id !== groupId));
         setArchivedGroups(prev => prev.filter(g => g.id !== groupId));
         return true;
@@ -188,6 +363,155 @@ export const GroupProvider: React.FC<GroupProviderProps> = ({ children }) => {
     }
   }, [isAuthenticated]);
 
+  const removeMember = useCallback(async (groupId: string, memberId: string): Promise<boolean> => {
+    if (!isAuthenticated) {
+      setError('You must be logged in to remove members');
+      return false;
+    }
+
+    try {
+      setError(null);
+      const success = await supabaseService.removeMember(groupId, memberId);
+
+      if (success) {
+        setActiveGroups(prev => prev.map(group => {
+          if (group.id === groupId) {
+            return {
+              ...group,
+              members: group.members.filter(m => m.id !== memberId),
+            };
+          }
+          return group;
+        }));
+        return true;
+      }
+
+      setError('Failed to remove member');
+      return false;
+    } catch (err) {
+      console.error('Error removing member:', err);
+      setError('Failed to remove member');
+      return false;
+    }
+  }, [isAuthenticated]);
+
+  const regenerateInviteCode = useCallback(async (groupId: string): Promise<string | null> => {
+    if (!isAuthenticated) {
+      setError('You must be logged in to regenerate invite codes');
+      return null;
+    }
+
+    try {
+      setError(null);
+      const inviteCode = await supabaseService.regenerateInviteCode(groupId);
+
+      if (inviteCode) {
+        setActiveGroups(prev => prev.map(group =>
+          group.id === groupId ? { ...group, inviteCode } : group
+        ));
+        return inviteCode;
+      }
+
+      setError('Failed to regenerate invite code');
+      return null;
+    } catch (err) {
+      console.error('Error regenerating invite code:', err);
+      setError('Failed to regenerate invite code');
+      return null;
+    }
+  }, [isAuthenticated]);
+
+  const loadGroupInvites = useCallback(async (groupId: string): Promise<GroupInvite[]> => {
+    if (!isAuthenticated) {
+      return [];
+    }
+
+    try {
+      setError(null);
+      return await supabaseService.loadGroupInvites(groupId);
+    } catch (err) {
+      console.error('Error loading invites:', err);
+      setError('Failed to load invites');
+      return [];
+    }
+  }, [isAuthenticated]);
+
+  const createGroupInvite = useCallback(async (
+    groupId: string,
+    expiresInHours?: number,
+    maxUses?: number
+  ): Promise<GroupInvite | null> => {
+    if (!isAuthenticated) {
+      setError('You must be logged in to create invites');
+      return null;
+    }
+
+    try {
+      setError(null);
+      const invite = await supabaseService.createGroupInvite(groupId, expiresInHours, maxUses);
+
+      if (!invite) {
+        setError('Failed to create invite');
+      }
+      return invite;
+    } catch (err) {
+      console.error('Error creating invite:', err);
+      setError('Failed to create invite');
+      return null;
+    }
+  }, [isAuthenticated]);
+
+  const revokeGroupInvite = useCallback(async (invite: GroupInvite): Promise<boolean> => {
+    if (!isAuthenticated) {
+      setError('You must be logged in to revoke invites');
+      return false;
+    }
+
+    try {
+      setError(null);
+      const success = await supabaseService.revokeGroupInvite(invite.id);
+
+      if (success) {
+        // Members share the default code, so stop showing it once revoked
+        if (invite.isDefault) {
+          setActiveGroups(prev => prev.map(group =>
+            group.id === invite.groupId
+              ? { ...group, inviteCode: undefined, inviteCodeExpiresAt: undefined }
+              : group
+          ));
+        }
+        return true;
+      }
+
+      setError('Failed to revoke invite');
+      return false;
+    } catch (err) {
+      console.error('Error revoking invite:', err);
+      setError('Failed to revoke invite');
+      return false;
+    }
+  }, [isAuthenticated]);
+
+  const resolveJoinRequest = useCallback(async (requestId: string, approve: boolean): Promise<boolean> => {
+    if (!isAuthenticated) {
+      setError('You must be logged in to resolve join requests');
+      return false;
+    }
+
+    try {
+      setError(null);
+      const success = await supabaseService.resolveJoinRequest(requestId, approve);
+      if (!success) {
+        setError('Failed to resolve join request');
+      }
+      return success;
+    } catch (err) {
+      console.error('Error resolving join request:', err);
+      setError('Failed to resolve join request');
+      return false;
+    }
+  }, [isAuthenticated]);
+
   const loadMessages = useCallback(async (groupId: string): Promise<Message[]> => {
     if (!isAuthenticated) {
       return [];
@@ -240,6 +564,232 @@ export const GroupProvider: React.FC<GroupProviderProps> = ({ children }) => {
     }
   }, [isAuthenticated]);
 
+  const addReaction = useCallback(async (messageId: string, emoji: string): Promise<boolean> => {
+    if (!isAuthenticated) {
+      setError('You must be logged in to react to messages');
+      return false;
+    }
+
+    try {
+      setError(null);
+      const success = await supabaseService.addReaction(messageId, emoji);
+      if (!success) {
+        setError('Failed to add reaction');
+      }
+      return success;
+    } catch (err) {
+      console.error('Error adding reaction:', err);
+      setError('Failed to add reaction');
+      return false;
+    }
+  }, [isAuthenticated]);
+
+  const removeReaction = useCallback(async (messageId: string, emoji: string): Promise<boolean> => {
+    if (!isAuthenticated) {
+      setError('You must be logged in to remove reactions');
+      return false;
+    }
+
+    try {
+      setError(null);
+      const success = await supabaseService.removeReaction(messageId, emoji);
+      if (!success) {
+        setError('Failed to remove reaction');
+      }
+      return success;
+    } catch (err) {
+      console.error('Error removing reaction:', err);
+      setError('Failed to remove reaction');
+      return false;
+    }
+  }, [isAuthenticated]);
+
+  const editMessage = useCallback(async (messageId: string, content: string): Promise<boolean> => {
+    if (!isAuthenticated) {
+      setError('You must be logged in to edit messages');
+      return false;
+    }
+
+    try {
+      setError(null);
+      const success = await supabaseService.editMessage(messageId, content);
+      if (!success) {
+        setError('Failed to edit message');
+      }
+      return success;
+    } catch (err) {
+      console.error('Error editing message:', err);
+      setError('Failed to edit message');
+      return false;
+    }
+  }, [isAuthenticated]);
+
+  const deleteMessage = useCallback(async (messageId: string): Promise<boolean> => {
+    if (!isAuthenticated) {
+      setError('You must be logged in to delete messages');
+      return false;
+    }
+
+    try {
+      setError(null);
+      // Read before deleting: the delete trigger drops the attachment rows
+      const files = await supabaseService.getAttachmentFiles(messageId);
+      const success = await supabaseService.deleteMessage(messageId);
+      if (!success) {
+        setError('Failed to delete message');
+        return false;
+      }
+
+      await Promise.all(
+        files.map(file => supabaseMediaStorage.deleteMedia(file.filePath, file.thumbnailPath))
+      );
+      return true;
+    } catch (err) {
+      console.error('Error deleting message:', err);
+      setError('Failed to delete message');
+      return false;
+    }
+  }, [isAuthenticated]);
+
+  /**
+   * Upload a picked file and attach it to a sent message
+   *
+   * Returns the server id of the new attachment, or null when the upload
+   * failed or was cancelled.
+   */
+  const uploadAttachment = useCallback(async (
+    messageId: string,
+    attachment: Attachment,
+    onProgress?: (progress: number) => void
+  ): Promise<string | null> => {
+    if (!isAuthenticated) {
+      setError('You must be logged in to upload media');
+      return null;
+    }
+
+    try {
+      const result = await supabaseMediaStorage.uploadMedia({
+        messageId,
+        localUri: attachment.uri,
+        type: attachment.type,
+        duration: attachment.duration,
+        uploadId: attachment.id,
+        onProgress,
+      });
+      return result?.attachmentId ?? null;
+    } catch (err) {
+      console.error('Error uploading attachment:', err);
+      return null;
+    }
+  }, [isAuthenticated]);
+
+  const cancelAttachmentUpload = useCallback((attachmentId: string) => {
+    supabaseMediaStorage.cancelUpload(attachmentId);
+  }, []);
+
+  /**
+   * Keep a message sent with uploading: true from the group until these
+   * attachments have been uploaded or cancelled
+   */
+  const holdMessageForUploads = useCallback(async (messageId: string, attachmentIds: string[]): Promise<void> => {
+    try {
+      await supabaseMediaStorage.holdMessage(messageId, attachmentIds);
+    } catch (err) {
+      console.error('Error holding message for uploads:', err);
+    }
+  }, []);
+
+  const getMessageEditHistory = useCallback(async (messageId: string): Promise<MessageEdit[]> => {
+    if (!isAuthenticated) return [];
+
+    try {
+      return await supabaseService.getMessageEditHistory(messageId);
+    } catch (err) {
+      console.error('Error loading edit history:', err);
+      return [];
+    }
+  }, [isAuthenticated]);
+
+  const markMessagesRead = useCallback(async (messageId: string): Promise<boolean> => {
+    if (!isAuthenticated) return false;
+
+    try {
+      return await supabaseService.markMessagesRead(messageId);
+    } catch (err) {
+      console.error('Error marking messages read:', err);
+      return false;
+    }
+  }, [isAuthenticated]);
+
+  const markGroupRead = useCallback(async (groupId: string): Promise<void> => {
+    if (!isAuthenticated) return;
+
+    setActiveGroups(prev => prev.map(group =>
+      group.id === groupId ? { ...group, unreadCount: 0 } : group
+    ));
+
+    try {
+      await supabaseService.markGroupRead(groupId);
+    } catch (err) {
+      console.error('Error marking group read:', err);
+    }
+  }, [isAuthenticated]);
+
+  const setGroupMute = useCallback(async (groupId: string, until: Date | null): Promise<boolean> => {
+    if (!isAuthenticated) return false;
+
+    try {
+      setError(null);
+      const success = await supabaseService.setGroupMute(groupId, until);
+      if (success) {
+        setActiveGroups(prev => prev.map(group =>
+          group.id === groupId ? { ...group, mutedUntil: until || undefined } : group
+        ));
+      } else {
+        setError('Failed to update notifications');
+      }
+      return success;
+    } catch (err) {
+      console.error('Error muting group:', err);
+      setError('Failed to update notifications');
+      return false;
+    }
+  }, [isAuthenticated]);
+
+  const proposeExtension = useCallback(async (groupId: string, hours: number): Promise<boolean> => {
+    if (!isAuthenticated) return false;
+
+    try {
+      setError(null);
+      const success = await supabaseService.proposeExtension(groupId, hours);
+      if (!success) {
+        setError('Failed to propose extension');
+      }
+      return success;
+    } catch (err) {
+      console.error('Error proposing extension:', err);
+      setError('Failed to propose extension');
+      return false;
+    }
+  }, [isAuthenticated]);
+
+  const voteOnExtension = useCallback(async (proposalId: string, approve: boolean): Promise<boolean> => {
+    if (!isAuthenticated) return false;
+
+    try {
+      setError(null);
+      const success = await supabaseService.voteOnExtension(proposalId, approve);
+      if (!success) {
+        setError('Failed to vote on extension');
+      }
+      return success;
+    } catch (err) {
+      console.error('Error voting on extension:', err);
+      setError('Failed to vote on extension');
+      return false;
+    }
+  }, [isAuthenticated]);
+
   const subscribeToGroup = useCallback((groupId: string, onUpdate: (group: Group) => void): () => void => {
     if (!isAuthenticated) {
       return () => {};
@@ -264,13 +814,13 @@ export const GroupProvider: React.FC<GroupProviderProps> = ({ children }) => {
       // Update group's last message in local state
       const lastMessage = messages[messages.length - 1];
       if (lastMessage) {
+        // Unread counts are maintained server-side and arrive separately
         setActiveGroups(prev => prev.map(group => {
           if (group.id === groupId) {
             return {
               ...group,
               lastMessage,
               lastActivity: lastMessage.timestamp,
-              unreadCount: lastMessage.isOwnMessage ? 0 : group.unreadCount + 1,
             };
           }
           return group;
@@ -282,24 +832,64 @@ export const GroupProvider: React.FC<GroupProviderProps> = ({ children }) => {
     });
   }, [isAuthenticated]);
 
-  const getGroupById = useCallback((groupId: string): Group | null => {
-    return [...activeGroups, ...archivedGroups].find(g => g.id === groupId) || null;
-  }, [activeGroups, archivedGroups]);
+  const subscribeToReadCursors = useCallback((groupId: string, onUpdate: (cursors: ReadCursor[]) => void): () => void => {
+    if (!isAuthenticated) {
+      return () => {};
+    }
 
-  const processExpiredGroups = useCallback(async () => {
-    if (!isAuthenticated) return;
+    return supabaseService.subscribeToReadCursors(groupId, onUpdate);
+  }, [isAuthenticated]);
 
-    try {
-      await supabaseService.processExpiredGroups();
-      // Reload groups to reflect any changes
-      const { activeGroups: active, archivedGroups: archived } = await supabaseService.loadGroups();
-      setActiveGroups(active);
-      setArchivedGroups(archived);
-    } catch (err) {
-      console.error('Error processing expired groups:', err);
+  const subscribeToTyping = useCallback((groupId: string, onTyping: (users: ChatUser[]) => void): () => void => {
+    if (!isAuthenticated) {
+      return () => {};
+    }
+
+    return supabaseService.subscribeToTyping(groupId, onTyping);
+  }, [isAuthenticated]);
+
+  const sendTypingState = useCallback((groupId: string, isTyping: boolean) => {
+    if (!isAuthenticated || !chatUser) return;
+
+    supabaseService.sendTypingState(groupId, chatUser, isTyping);
+  }, [isAuthenticated, chatUser]);
+
+  const subscribeToPresence = useCallback((groupId: string, onPresence: (presence: Record<string, PresenceStatus>) => void): () => void => {
+    if (!isAuthenticated || !user) {
+      return () => {};
+    }
+
+    return supabaseService.subscribeToPresence(groupId, user.id, onPresence);
+  }, [isAuthenticated, user?.id]);
+
+  const subscribeToExtensionProposals = useCallback((groupId: string, onChange: (proposal: ExtensionProposal | null) => void): () => void => {
+    if (!isAuthenticated) {
+      return () => {};
+    }
+
+    return supabaseService.subscribeToExtensionProposals(groupId, onChange);
+  }, [isAuthenticated]);
+
+  const subscribeToJoinRequests = useCallback((groupId: string, onChange: (requests: JoinRequest[]) => void): () => void => {
+    if (!isAuthenticated) {
+      return () => {};
     }
+
+    return supabaseService.subscribeToJoinRequests(groupId, onChange);
   }, [isAuthenticated]);
 
+  const subscribeToOwnJoinRequests = useCallback((onResolve: (groupId: string, approved: boolean) => void): () => void => {
+    if (!isAuthenticated || !user) {
+      return () => {};
+    }
+
+    return supabaseService.subscribeToOwnJoinRequests(user.id, onResolve);
+  }, [isAuthenticated, user?.id]);
+
+  const getGroupById = useCallback((groupId: string): Group | null => {
+    return [...activeGroups, ...archivedGroups].find(g => g.id === groupId) || null;
+  }, [activeGroups, archivedGroups]);
+
   return (
     <GroupContext.Provider
       value={{
@@ -308,17 +898,45 @@ export const GroupProvider: React.FC<GroupProviderProps> = ({ children }) => {
         loading,
         error,
         refreshing,
+        hasMoreArchivedGroups,
         loadGroups,
+        loadMoreArchivedGroups,
         createGroup,
         joinGroupWithCode,
+        previewGroupByInvite,
         leaveGroup,
+        removeMember,
+        regenerateInviteCode,
+        loadGroupInvites,
+        createGroupInvite,
+        revokeGroupInvite,
+        resolveJoinRequest,
         loadMessages,
         sendMessage,
+        addReaction,
+        removeReaction,
+        editMessage,
+        deleteMessage,
+        uploadAttachment,
+        cancelAttachmentUpload,
+        holdMessageForUploads,
+        getMessageEditHistory,
+        markMessagesRead,
+        markGroupRead,
+        setGroupMute,
+        proposeExtension,
+        voteOnExtension,
         subscribeToGroup,
         subscribeToMessages,
+        subscribeToReadCursors,
+        subscribeToTyping,
+        sendTypingState,
+        subscribeToPresence,
+        subscribeToExtensionProposals,
+        subscribeToJoinRequests,
+        subscribeToOwnJoinRequests,
         refreshGroups,
         getGroupById,
-        processExpiredGroups,
       }}
     >
       {children}
@@ -1,6 +1,8 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { Theme, GroupbySettings } from '../types';
 import { supabaseService } from '../services/supabaseService';
+import { DEFAULT_EXPIRY_WARNING_MINUTES } from '../services/notificationService';
+import { DEFAULT_MEDIA_CACHE_LIMIT_MB } from '../services/mediaStorage';
 
 interface ThemeContextType {
   theme: Theme;
@@ -29,9 +31,11 @@ export const ThemeProvider: React.FC<ThemeProviderProps> = ({ children }) => {
     theme: 'light',
     enableHaptics: true,
     enableTypingIndicator: true,
-    defaultGroupLifespan: 'day',
+    defaultGroupLifespan: '24_hours',
     showExpirationWarnings: true,
+    expiryWarningMinutes: DEFAULT_EXPIRY_WARNING_MINUTES,
     archiveRetentionDays: 30,
+    mediaCacheLimitMB: DEFAULT_MEDIA_CACHE_LIMIT_MB,
     autoJoinSuggestions: false,
   });
 
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState } from "react";
 import {
   View,
   Text,
@@ -10,9 +10,9 @@ import {
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useTheme } from "../contexts/ThemeContext";
+import { useGroups } from "../contexts/GroupContext";
 import { getThemeColors } from "../utils/themes";
-import { Group } from "../types";
-import { StorageService } from "../services/storage";
+import { DisbandReason, Group } from "../types";
 import * as Haptics from "expo-haptics";
 import { LinearGradient } from "expo-linear-gradient";
 import { BlurView } from "expo-blur";
@@ -24,25 +24,17 @@ interface ArchiveScreenProps {
 const ArchiveScreen: React.FC<ArchiveScreenProps> = ({ navigation }) => {
   const { theme } = useTheme();
   const colors = getThemeColors(theme);
-  const [archivedGroups, setArchivedGroups] = useState<Group[]>([]);
+  const { archivedGroups, refreshGroups, loadMoreArchivedGroups } =
+    useGroups();
   const [refreshing, setRefreshing] = useState(false);
 
-  useEffect(() => {
-    loadArchivedGroups();
-  }, []);
-
-  const loadArchivedGroups = async () => {
-    const { archived } = await StorageService.loadGroups();
-    setArchivedGroups(archived.slice(0, 50));
-  };
-
   const onRefresh = async () => {
     setRefreshing(true);
-    await loadArchivedGroups();
+    await refreshGroups();
     setRefreshing(false);
   };
 
-  const formatDisbandReason = (reason?: string) => {
+  const formatDisbandReason = (reason?: DisbandReason) => {
     switch (reason) {
       case "time_expired":
         return "期限切れ";
@@ -50,6 +42,8 @@ const ArchiveScreen: React.FC<ArchiveScreenProps> = ({ navigation }) => {
         return "非アクティブ";
       case "message_limit":
         return "メッセージ上限";
+      case "manual":
+        return "手動で終了";
       default:
         return "終了";
     }
@@ -185,6 +179,8 @@ const ArchiveScreen: React.FC<ArchiveScreenProps> = ({ navigation }) => {
           keyExtractor={(item) => item.id}
           contentContainerStyle={styles.listContent}
           showsVerticalScrollIndicator={false}
+          onEndReached={loadMoreArchivedGroups}
+          onEndReachedThreshold={0.5}
           refreshControl={
             <RefreshControl
               refreshing={refreshing}
@@ -9,13 +9,14 @@ import {
   Platform,
   Alert,
   KeyboardAvoidingView,
+  Switch,
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import DateTimePicker from "@react-native-community/datetimepicker";
 import { useTheme } from "../contexts/ThemeContext";
 import { useGroups } from "../contexts/GroupContext";
 import { getThemeColors } from "../utils/themes";
-import { GroupLifespan } from "../types";
+import { ExtensionApproval, GroupLifespan } from "../types";
 import * as Haptics from "expo-haptics";
 import { LinearGradient } from "expo-linear-gradient";
 import { BlurView } from "expo-blur";
@@ -32,7 +33,7 @@ const LIFESPAN_OPTIONS: {
   icon: string;
 }[] = [
   {
-    value: "week",
+    value: "7_days",
     label: "1週間",
     duration: 7 * 24 * 60 * 60 * 1000,
     icon: "calendar-outline",
@@ -40,6 +41,17 @@ const LIFESPAN_OPTIONS: {
   { value: "custom", label: "カスタム", duration: 0, icon: "settings-outline" },
 ];
 
+const EXTENSION_APPROVAL_OPTIONS: {
+  key: string;
+  label: string;
+  approval: ExtensionApproval;
+  quorum?: number;
+}[] = [
+  { key: "majority", label: "過半数の賛成", approval: "quorum", quorum: 0.5 },
+  { key: "everyone", label: "全員の賛成", approval: "quorum", quorum: 1 },
+  { key: "admin", label: "管理者の承認", approval: "admin" },
+];
+
 const CreateGroupScreen: React.FC<CreateGroupScreenProps> = ({
   navigation,
 }) => {
@@ -49,12 +61,16 @@ const CreateGroupScreen: React.FC<CreateGroupScreenProps> = ({
   const [groupName, setGroupName] = useState("");
   const [groupDescription, setGroupDescription] = useState("");
   const [selectedLifespan, setSelectedLifespan] =
-    useState<GroupLifespan>("week");
+    useState<GroupLifespan>("7_days");
   const [customDate, setCustomDate] = useState(
     new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
   );
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [showTimePicker, setShowTimePicker] = useState(false);
+  const [warnBeforeExpiry, setWarnBeforeExpiry] = useState(true);
+  const [allowExtension, setAllowExtension] = useState(false);
+  const [requireApproval, setRequireApproval] = useState(false);
+  const [extensionApprovalKey, setExtensionApprovalKey] = useState("majority");
 
   const handleCreateGroup = async () => {
     if (!groupName.trim()) {
@@ -85,12 +101,21 @@ const CreateGroupScreen: React.FC<CreateGroupScreenProps> = ({
       );
     }
 
+    const extensionApproval = EXTENSION_APPROVAL_OPTIONS.find(
+      (opt) => opt.key === extensionApprovalKey
+    );
+
     const newGroup = await createGroup({
       name: groupName.trim(),
       description: groupDescription.trim() || undefined,
       settings: {
         lifespan: selectedLifespan,
-        expirationTime: selectedLifespan === "custom" ? expirationTime : undefined,
+        expirationTime,
+        warnBeforeExpiry,
+        allowExtension,
+        extensionApproval: extensionApproval?.approval,
+        extensionQuorum: extensionApproval?.quorum,
+        requireApproval,
       },
     });
 
@@ -421,6 +446,143 @@ const CreateGroupScreen: React.FC<CreateGroupScreenProps> = ({
               )}
             </View>
 
+            <View style={styles.inputSection}>
+              <Text style={[styles.inputLabel, { color: colors.text }]}>
+                通知
+              </Text>
+              <BlurView intensity={60} tint={theme} style={styles.inputBlur}>
+                <View style={styles.toggleRow}>
+                  <View style={styles.toggleTextContainer}>
+                    <Text style={[styles.toggleTitle, { color: colors.text }]}>
+                      終了前に通知
+                    </Text>
+                    <Text
+                      style={[
+                        styles.toggleDescription,
+                        { color: colors.textSecondary },
+                      ]}
+                    >
+                      タイミングは設定画面で変更できます
+                    </Text>
+                  </View>
+                  <Switch
+                    value={warnBeforeExpiry}
+                    onValueChange={(value) => {
+                      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                      setWarnBeforeExpiry(value);
+                    }}
+                    trackColor={{ false: colors.border, true: colors.primary }}
+                    thumbColor="#FFFFFF"
+                  />
+                </View>
+              </BlurView>
+            </View>
+
+            <View style={styles.inputSection}>
+              <Text style={[styles.inputLabel, { color: colors.text }]}>
+                延長
+              </Text>
+              <BlurView intensity={60} tint={theme} style={styles.inputBlur}>
+                <View style={styles.toggleRow}>
+                  <View style={styles.toggleTextContainer}>
+                    <Text style={[styles.toggleTitle, { color: colors.text }]}>
+                      メンバーによる延長を許可
+                    </Text>
+                    <Text
+                      style={[
+                        styles.toggleDescription,
+                        { color: colors.textSecondary },
+                      ]}
+                    >
+                      終了間近に延長を提案して投票できます（最大3回）
+                    </Text>
+                  </View>
+                  <Switch
+                    value={allowExtension}
+                    onValueChange={(value) => {
+                      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                      setAllowExtension(value);
+                    }}
+                    trackColor={{ false: colors.border, true: colors.primary }}
+                    thumbColor="#FFFFFF"
+                  />
+                </View>
+              </BlurView>
+
+              {allowExtension && (
+                <View style={styles.extensionOptions}>
+                  {EXTENSION_APPROVAL_OPTIONS.map((option) => {
+                    const selected = extensionApprovalKey === option.key;
+                    return (
+                      <TouchableOpacity
+                        key={option.key}
+                        style={[
+                          styles.extensionOption,
+                          {
+                            borderColor: selected
+                              ? colors.primary
+                              : colors.border,
+                            backgroundColor: selected
+                              ? colors.primary + "20"
+                              : "transparent",
+                          },
+                        ]}
+                        onPress={() => {
+                          Haptics.impactAsync(
+                            Haptics.ImpactFeedbackStyle.Light
+                          );
+                          setExtensionApprovalKey(option.key);
+                        }}
+                      >
+                        <Text
+                          style={[
+                            styles.extensionOptionText,
+                            {
+                              color: selected ? colors.primary : colors.text,
+                            },
+                          ]}
+                        >
+                          {option.label}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              )}
+            </View>
+
+            <View style={styles.inputSection}>
+              <Text style={[styles.inputLabel, { color: colors.text }]}>
+                参加
+              </Text>
+              <BlurView intensity={60} tint={theme} style={styles.inputBlur}>
+                <View style={styles.toggleRow}>
+                  <View style={styles.toggleTextContainer}>
+                    <Text style={[styles.toggleTitle, { color: colors.text }]}>
+                      参加を承認制にする
+                    </Text>
+                    <Text
+                      style={[
+                        styles.toggleDescription,
+                        { color: colors.textSecondary },
+                      ]}
+                    >
+                      招待コードで参加するには管理者の承認が必要です
+                    </Text>
+                  </View>
+                  <Switch
+                    value={requireApproval}
+                    onValueChange={(value) => {
+                      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                      setRequireApproval(value);
+                    }}
+                    trackColor={{ false: colors.border, true: colors.primary }}
+                    thumbColor="#FFFFFF"
+                  />
+                </View>
+              </BlurView>
+            </View>
+
             <View style={styles.infoBox}>
               <BlurView intensity={40} tint={theme} style={styles.infoBlur}>
                 <View style={styles.infoContent}>
@@ -608,6 +770,39 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: "500",
   },
+  toggleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 16,
+    backgroundColor: "rgba(255, 255, 255, 0.05)",
+  },
+  toggleTextContainer: {
+    flex: 1,
+    marginRight: 12,
+  },
+  toggleTitle: {
+    fontSize: 16,
+  },
+  toggleDescription: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  extensionOptions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginTop: 12,
+  },
+  extensionOption: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  extensionOptionText: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
   infoBox: {
     marginTop: 24,
     borderRadius: 12,
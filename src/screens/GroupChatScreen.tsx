@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useRef, useMemo } from "react";
 import {
   View,
   Text,
@@ -12,17 +12,27 @@ import {
   ScrollView,
   Alert,
   Share,
+  ViewToken,
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useTheme } from "../contexts/ThemeContext";
 import { getThemeColors } from "../utils/themes";
-import { Message, Group } from "../types";
-import { StorageService } from "../services/storage";
+import { Attachment, ChatUser, ExtensionProposal, GroupInvite, JoinRequest, Message, PresenceStatus, ReadCursor } from "../types";
+import { useGroups } from "../contexts/GroupContext";
+import { useAuth } from "../contexts/AuthContext";
 import MessageBubble from "../components/MessageBubble";
 import MessageInput from "../components/MessageInput";
+import ReactionPicker from "../components/ReactionPicker";
+import ExtensionPoll from "../components/ExtensionPoll";
+import InviteManager from "../components/InviteManager";
+import JoinRequestList from "../components/JoinRequestList";
 import * as Haptics from "expo-haptics";
 import { LinearGradient } from "expo-linear-gradient";
+import { useIsFocused } from "@react-navigation/native";
 import Icon from "react-native-vector-icons/Ionicons";
+import QRCode from "react-native-qrcode-svg";
+import { MUTED_FOREVER } from "../utils/codecs";
+import { buildInviteLink, formatInviteCode } from "../utils/inviteLinks";
 
 interface GroupChatScreenProps {
   navigation: any;
@@ -33,133 +43,675 @@ interface GroupChatScreenProps {
   };
 }
 
+// Local messages that have not reached the server yet
+const isLocalMessage = (message: Message) =>
+  message.status === "sending" || message.status === "failed";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const MUTE_OPTIONS = [
+  { label: "1時間", duration: HOUR_MS },
+  { label: "8時間", duration: 8 * HOUR_MS },
+  { label: "1日", duration: 24 * HOUR_MS },
+];
+
+const formatLastSeen = (date: Date) => {
+  const minutes = Math.floor((Date.now() - date.getTime()) / 60000);
+  if (minutes < 1) return "たった今";
+  if (minutes < 60) return `${minutes}分前`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}時間前`;
+  return date.toLocaleDateString("ja-JP", { month: "numeric", day: "numeric" });
+};
+
 const GroupChatScreen: React.FC<GroupChatScreenProps> = ({
   navigation,
   route,
 }) => {
-  const { theme } = useTheme();
+  const { theme, settings } = useTheme();
   const colors = getThemeColors(theme);
   const { groupId } = route.params;
-  const [group, setGroup] = useState<Group | null>(null);
+  const {
+    getGroupById,
+    loadMessages,
+    sendMessage,
+    subscribeToMessages,
+    addReaction,
+    removeReaction,
+    editMessage,
+    deleteMessage,
+    uploadAttachment,
+    cancelAttachmentUpload,
+    holdMessageForUploads,
+    getMessageEditHistory,
+    markMessagesRead,
+    markGroupRead,
+    setGroupMute,
+    subscribeToReadCursors,
+    subscribeToTyping,
+    sendTypingState,
+    subscribeToPresence,
+    subscribeToExtensionProposals,
+    proposeExtension,
+    voteOnExtension,
+    removeMember,
+    regenerateInviteCode,
+    loadGroupInvites,
+    createGroupInvite,
+    revokeGroupInvite,
+    resolveJoinRequest,
+    subscribeToJoinRequests,
+  } = useGroups();
+  const { user, chatUser } = useAuth();
+  const group = getGroupById(groupId);
+  const currentUserId = user?.id;
+  const isAdmin =
+    !!currentUserId &&
+    group?.members.find((member) => member.id === currentUserId)?.role === "admin";
   const [messages, setMessages] = useState<Message[]>([]);
   const flatListRef = useRef<FlatList>(null);
   const [refreshing, setRefreshing] = useState(false);
   const [showGroupDetails, setShowGroupDetails] = useState(false);
+  const [reactionTarget, setReactionTarget] = useState<Message | null>(null);
+  const [replyTo, setReplyTo] = useState<Message | null>(null);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [readCursors, setReadCursors] = useState<ReadCursor[]>([]);
+  const [typingUsers, setTypingUsers] = useState<ChatUser[]>([]);
+  const [presence, setPresence] = useState<Record<string, PresenceStatus>>({});
+  const [extensionProposal, setExtensionProposal] =
+    useState<ExtensionProposal | null>(null);
+  const [invites, setInvites] = useState<GroupInvite[]>([]);
+  const [joinRequests, setJoinRequests] = useState<JoinRequest[]>([]);
+  // Attachments still on their way up, keyed by the server id of their message
+  const [pendingUploads, setPendingUploads] = useState<
+    Record<string, Attachment[]>
+  >({});
+  // Attachments cancelled before their message reached the server
+  const cancelledAttachmentIds = useRef(new Set<string>());
+  const typingEnabled = settings.enableTypingIndicator !== false;
+  const lastMarkedReadAt = useRef<number>(0);
+  const isFocused = useIsFocused();
+  const lastMessageId = messages[messages.length - 1]?.id;
+  const [highlightedMessageId, setHighlightedMessageId] = useState<
+    string | null
+  >(null);
 
   useEffect(() => {
-    loadGroup();
+    refreshMessages();
+
+    const unsubscribe = subscribeToMessages(groupId, (serverMessages) => {
+      // Keep optimistic messages that the server has not confirmed yet
+      setMessages((prev) => [
+        ...serverMessages,
+        ...prev.filter(isLocalMessage),
+      ]);
+    });
+
+    return unsubscribe;
   }, [groupId]);
 
+  // Typing indicators are opt-out: disabling stops both showing and sending
+  useEffect(() => {
+    setTypingUsers([]);
+    if (!typingEnabled || group?.status === "archived") return;
 
-  const loadGroup = async () => {
-    setRefreshing(true);
-    const loadedGroup = await StorageService.loadGroup(groupId);
-    if (loadedGroup) {
-      setGroup(loadedGroup);
-      setMessages(loadedGroup.messages);
+    return subscribeToTyping(groupId, setTypingUsers);
+  }, [groupId, typingEnabled, group?.status]);
+
+  useEffect(() => {
+    setPresence({});
+    return subscribeToPresence(groupId, setPresence);
+  }, [groupId]);
+
+  useEffect(() => {
+    setExtensionProposal(null);
+    if (!group?.settings.allowExtension || group.status === "archived") return;
+
+    return subscribeToExtensionProposals(groupId, setExtensionProposal);
+  }, [groupId, group?.settings.allowExtension, group?.status]);
+
+  const canManageInvites = isAdmin && group?.status !== "archived";
+  // Media of a group that is over is shown from the server, not kept on the device
+  const hasEnded =
+    group?.status === "archived" ||
+    (!!group?.settings.expirationTime &&
+      group.settings.expirationTime.getTime() <= Date.now());
+
+  useEffect(() => {
+    if (!showGroupDetails || !canManageInvites) return;
+
+    loadGroupInvites(groupId).then(setInvites);
+  }, [showGroupDetails, canManageInvites, groupId, group?.inviteCode]);
+
+  // Requests made before approval was switched off still need an answer
+  useEffect(() => {
+    setJoinRequests([]);
+    if (!canManageInvites) return;
+
+    return subscribeToJoinRequests(groupId, setJoinRequests);
+  }, [groupId, canManageInvites]);
+
+  const handleProposeExtension = async (hours: number) => {
+    const success = await proposeExtension(groupId, hours);
+    if (!success) {
+      Alert.alert("エラー", "延長を提案できませんでした");
+    }
+  };
+
+  const handleVoteOnExtension = async (approve: boolean) => {
+    if (!extensionProposal) return;
+
+    const success = await voteOnExtension(extensionProposal.id, approve);
+    if (!success) {
+      Alert.alert("エラー", "投票できませんでした");
+    }
+  };
+
+  const isMuted =
+    !!group?.mutedUntil && group.mutedUntil.getTime() > Date.now();
+
+  const handleMute = async (until: Date | null) => {
+    const success = await setGroupMute(groupId, until);
+    if (!success) {
+      Alert.alert("エラー", "通知設定の変更に失敗しました");
+    }
+  };
+
+  const handleShowNotificationMenu = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+    const status = !isMuted
+      ? "新しいメッセージを通知します"
+      : group?.mutedUntil?.getTime() === MUTED_FOREVER.getTime()
+      ? "通知はオフです"
+      : `${group?.mutedUntil?.toLocaleString("ja-JP", {
+          month: "numeric",
+          day: "numeric",
+          hour: "2-digit",
+          minute: "2-digit",
+        })}まで通知をオフにしています`;
+
+    Alert.alert("通知", status, [
+      ...(isMuted
+        ? [{ text: "通知をオンにする", onPress: () => handleMute(null) }]
+        : []),
+      ...MUTE_OPTIONS.map((option) => ({
+        text: `${option.label}オフにする`,
+        onPress: () => handleMute(new Date(Date.now() + option.duration)),
+      })),
+      { text: "ずっとオフにする", onPress: () => handleMute(MUTED_FOREVER) },
+      { text: "キャンセル", style: "cancel" as const },
+    ]);
+  };
+
+  const getPresence = (memberId: string): PresenceStatus =>
+    presence[memberId] || "offline";
+  const onlineCount = (group?.members || []).filter(
+    (member) => getPresence(member.id) === "online"
+  ).length;
+
+  const renderPresenceDot = (memberId: string) => {
+    const status = getPresence(memberId);
+    if (status === "offline") return null;
+
+    return (
+      <View
+        style={[
+          styles.presenceDot,
+          {
+            backgroundColor:
+              status === "online" ? colors.success : colors.warning,
+            borderColor: colors.surface,
+          },
+        ]}
+      />
+    );
+  };
+
+  const getPresenceLabel = (member: ChatUser) => {
+    switch (getPresence(member.id)) {
+      case "online": return "オンライン";
+      case "away": return "離席中";
+      default:
+        return member.lastSeenAt
+          ? `最終アクセス: ${formatLastSeen(member.lastSeenAt)}`
+          : null;
+    }
+  };
+
+  const typingLabel =
+    typingUsers.length === 0
+      ? undefined
+      : typingUsers.length === 1
+      ? typingUsers[0].name
+      : `${typingUsers[0].name}、他${typingUsers.length - 1}人`;
+
+  // Clear the unread badge on focus and for messages arriving while open
+  useEffect(() => {
+    if (isFocused) {
+      markGroupRead(groupId);
     }
+  }, [isFocused, groupId, lastMessageId]);
+
+  useEffect(() => {
+    lastMarkedReadAt.current = 0;
+    return subscribeToReadCursors(groupId, setReadCursors);
+  }, [groupId]);
+
+  // onViewableItemsChanged must stay stable, so go through a ref
+  const markMessagesReadRef = useRef(markMessagesRead);
+  markMessagesReadRef.current = markMessagesRead;
+
+  // Advance the read cursor to the newest message that has been on screen
+  const handleViewableItemsChanged = useRef(
+    ({ viewableItems }: { viewableItems: ViewToken[] }) => {
+      const newest = viewableItems
+        .map((token) => token.item as Message)
+        .filter((msg) => msg.status === "sent")
+        .reduce<Message | null>(
+          (latest, msg) =>
+            !latest || msg.timestamp > latest.timestamp ? msg : latest,
+          null
+        );
+
+      if (newest && newest.timestamp.getTime() > lastMarkedReadAt.current) {
+        lastMarkedReadAt.current = newest.timestamp.getTime();
+        markMessagesReadRef.current(newest.id);
+      }
+    }
+  ).current;
+  const viewabilityConfig = useRef({ itemVisiblePercentThreshold: 50 }).current;
+
+  const getReadReceipts = (message: Message) => {
+    const others = (group?.members || []).filter(
+      (member) => member.id !== currentUserId
+    );
+    const hasRead = (memberId: string) => {
+      const cursor = readCursors.find((c) => c.userId === memberId);
+      return !!cursor?.lastReadAt && cursor.lastReadAt >= message.timestamp;
+    };
+
+    return {
+      readBy: others.filter((member) => hasRead(member.id)),
+      unreadBy: others.filter((member) => !hasRead(member.id)),
+    };
+  };
+
+  const refreshMessages = async () => {
+    setRefreshing(true);
+    const serverMessages = await loadMessages(groupId);
+    setMessages((prev) => [...serverMessages, ...prev.filter(isLocalMessage)]);
     setRefreshing(false);
   };
 
-  const handleSendMessage = async (text: string) => {
+  const displayedMessages = useMemo(
+    () =>
+      messages.map((msg) => {
+        const uploads = pendingUploads[msg.id];
+        if (!uploads?.length) return msg;
+
+        // The realtime copy of a finished upload replaces the local one
+        const serverIds = new Set((msg.attachments || []).map((a) => a.id));
+        return {
+          ...msg,
+          attachments: [
+            ...(msg.attachments || []),
+            ...uploads.filter((a) => !serverIds.has(a.id)),
+          ],
+        };
+      }),
+    [messages, pendingUploads]
+  );
+
+  const updatePendingUpload = (
+    messageId: string,
+    attachmentId: string,
+    changes: Partial<Attachment>
+  ) => {
+    setPendingUploads((prev) =>
+      prev[messageId]
+        ? {
+            ...prev,
+            [messageId]: prev[messageId].map((a) =>
+              a.id === attachmentId ? { ...a, ...changes } : a
+            ),
+          }
+        : prev
+    );
+  };
+
+  const startUpload = async (messageId: string, attachment: Attachment) => {
+    updatePendingUpload(messageId, attachment.id, {
+      uploadStatus: "uploading",
+      uploadProgress: 0,
+    });
+
+    const attachmentId = await uploadAttachment(
+      messageId,
+      attachment,
+      (progress) =>
+        updatePendingUpload(messageId, attachment.id, { uploadProgress: progress })
+    );
+
+    // A cancelled upload has already been removed, so these are no-ops then
+    if (attachmentId) {
+      updatePendingUpload(messageId, attachment.id, {
+        id: attachmentId,
+        uploadStatus: undefined,
+        uploadProgress: undefined,
+      });
+    } else {
+      updatePendingUpload(messageId, attachment.id, { uploadStatus: "failed" });
+    }
+  };
+
+  const deliverMessage = async (localMessage: Message) => {
+    const attachments = localMessage.attachments || [];
+    const sentMessage = await sendMessage({
+      groupId,
+      content: localMessage.text,
+      messageType:
+        !localMessage.text && attachments.length > 0
+          ? attachments[0].type
+          : undefined,
+      replyTo: localMessage.replyToId,
+      // Nobody else sees it, and nobody is notified, until the uploads settle
+      uploading: attachments.length > 0,
+    });
+
+    setMessages((prev) => {
+      if (!sentMessage) {
+        return prev.map((msg) =>
+          msg.id === localMessage.id ? { ...msg, status: "failed" } : msg
+        );
+      }
+
+      // The realtime reload may already have delivered the server copy
+      if (prev.some((msg) => msg.id === sentMessage.id)) {
+        return prev.filter((msg) => msg.id !== localMessage.id);
+      }
+
+      return prev.map((msg) => (msg.id === localMessage.id ? sentMessage : msg));
+    });
+
+    if (!sentMessage || attachments.length === 0) return;
+
+    const uploads = attachments.filter(
+      (a) => !cancelledAttachmentIds.current.has(a.id)
+    );
+    // With everything cancelled this publishes the text, or deletes the message
+    await holdMessageForUploads(
+      sentMessage.id,
+      uploads.map((a) => a.id)
+    );
+    if (uploads.length === 0) return;
+
+    setPendingUploads((prev) => ({
+      ...prev,
+      [sentMessage.id]: uploads.map((a) => ({
+        ...a,
+        uploadStatus: "uploading",
+        uploadProgress: 0,
+      })),
+    }));
+    await Promise.all(
+      uploads.map((attachment) => startUpload(sentMessage.id, attachment))
+    );
+  };
+
+  const handleRetryUpload = (message: Message, attachment: Attachment) => {
+    startUpload(message.id, attachment);
+  };
+
+  const handleCancelUpload = (message: Message, attachmentId: string) => {
+    cancelAttachmentUpload(attachmentId);
+
+    if (isLocalMessage(message)) {
+      cancelledAttachmentIds.current.add(attachmentId);
+      const remaining = (message.attachments || []).filter(
+        (a) => a.id !== attachmentId
+      );
+      setMessages((prev) =>
+        !message.text && remaining.length === 0
+          ? prev.filter((msg) => msg.id !== message.id)
+          : prev.map((msg) =>
+              msg.id === message.id ? { ...msg, attachments: remaining } : msg
+            )
+      );
+      return;
+    }
+
+    // Cancelling the last upload publishes the message, or deletes it if empty
+    setPendingUploads((prev) => ({
+      ...prev,
+      [message.id]: (prev[message.id] || []).filter((a) => a.id !== attachmentId),
+    }));
+  };
+
+  const applyLocalEdit = (messageId: string, changes: Partial<Message>) => {
+    setMessages((prev) =>
+      prev.map((msg) => (msg.id === messageId ? { ...msg, ...changes } : msg))
+    );
+  };
+
+  const handleEditMessage = async (message: Message, text: string) => {
+    setEditingMessage(null);
+    if (text === message.text) return;
+
+    applyLocalEdit(message.id, { text, editedAt: new Date() });
+
+    const success = await editMessage(message.id, text);
+    if (!success) {
+      applyLocalEdit(message.id, {
+        text: message.text,
+        editedAt: message.editedAt,
+      });
+      Alert.alert("エラー", "メッセージの編集に失敗しました");
+    }
+  };
+
+  const handleDeleteMessage = (message: Message) => {
+    Alert.alert("メッセージを削除", "このメッセージを削除しますか？", [
+      { text: "キャンセル", style: "cancel" },
+      {
+        text: "削除",
+        style: "destructive",
+        onPress: async () => {
+          applyLocalEdit(message.id, { isDeleted: true });
+
+          const success = await deleteMessage(message.id);
+          if (!success) {
+            applyLocalEdit(message.id, { isDeleted: false });
+            Alert.alert("エラー", "メッセージの削除に失敗しました");
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleShowEditHistory = async (message: Message) => {
+    const history = await getMessageEditHistory(message.id);
+    if (history.length === 0) return;
+
+    Alert.alert(
+      "編集履歴",
+      history
+        .map(
+          (edit) =>
+            `${edit.editedAt.toLocaleString("ja-JP", {
+              month: "numeric",
+              day: "numeric",
+              hour: "2-digit",
+              minute: "2-digit",
+            })}\n${edit.text}`
+        )
+        .join("\n\n")
+    );
+  };
+
+  const handleSendMessage = async (text: string, attachments?: Attachment[]) => {
     if (!group) return;
 
     // Prevent messaging in expired/archived groups
     if (group.status === "archived") return;
 
-    const newMessage: Message = {
-      id: Date.now().toString(),
+    if (editingMessage) {
+      await handleEditMessage(editingMessage, text);
+      return;
+    }
+
+    const localMessage: Message = {
+      id: `local-${Date.now()}`,
       text,
       timestamp: new Date(),
       isOwnMessage: true,
-      sender: "あなた",
+      sender: chatUser?.name || "あなた",
       status: "sending",
-      deliveryTime: new Date(Date.now() + 2000),
-    };
-
-    const updatedMessages = [...messages, newMessage];
-    setMessages(updatedMessages);
-
-    const updatedGroup = {
-      ...group,
-      messages: updatedMessages,
-      lastMessage: newMessage,
-      lastActivity: new Date(),
+      replyToId: replyTo?.id,
+      attachments: attachments?.map((attachment) => ({
+        ...attachment,
+        uploadStatus: "uploading" as const,
+        uploadProgress: 0,
+      })),
     };
 
-    await StorageService.saveGroup(updatedGroup);
-    setGroup(updatedGroup);
-
-    setTimeout(() => {
-      const deliveredMessage = { ...newMessage, status: "sent" as const };
-      const deliveredMessages = updatedMessages.map((msg) =>
-        msg.id === newMessage.id ? deliveredMessage : msg
-      );
-      setMessages(deliveredMessages);
-
-      const deliveredGroup = {
-        ...updatedGroup,
-        messages: deliveredMessages,
-        lastMessage: deliveredMessage,
-      };
-      StorageService.saveGroup(deliveredGroup);
-      setGroup(deliveredGroup);
-    }, 2000);
+    setMessages((prev) => [...prev, localMessage]);
+    setReplyTo(null);
 
     setTimeout(() => {
       flatListRef.current?.scrollToEnd({ animated: true });
     }, 100);
+
+    await deliverMessage(localMessage);
   };
 
-  const handleReaction = async (messageId: string, emoji: string) => {
-    if (!group) return;
+  const handleMessageLongPress = (message: Message) => {
+    if (message.status !== "failed") {
+      if (
+        message.status !== "sent" ||
+        message.isDeleted ||
+        group?.status === "archived"
+      ) {
+        return;
+      }
 
-    // Prevent reactions in expired/archived groups
-    if (group.status === "archived") return;
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+      Alert.alert("メッセージ", undefined, [
+        {
+          text: "返信",
+          onPress: () => {
+            setEditingMessage(null);
+            setReplyTo(message);
+          },
+        },
+        { text: "リアクション", onPress: () => setReactionTarget(message) },
+        ...(message.isOwnMessage
+          ? [
+              {
+                text: "編集",
+                onPress: () => {
+                  setReplyTo(null);
+                  setEditingMessage(message);
+                },
+              },
+              {
+                text: "削除",
+                style: "destructive" as const,
+                onPress: () => handleDeleteMessage(message),
+              },
+            ]
+          : []),
+        { text: "キャンセル", style: "cancel" },
+      ]);
+      return;
+    }
+
+    Alert.alert("送信に失敗しました", "このメッセージを再送信しますか？", [
+      {
+        text: "削除",
+        style: "destructive",
+        onPress: () =>
+          setMessages((prev) => prev.filter((msg) => msg.id !== message.id)),
+      },
+      { text: "キャンセル", style: "cancel" },
+      {
+        text: "再送信",
+        onPress: () => {
+          const retryMessage: Message = { ...message, status: "sending" };
+          setMessages((prev) =>
+            prev.map((msg) => (msg.id === message.id ? retryMessage : msg))
+          );
+          deliverMessage(retryMessage);
+        },
+      },
+    ]);
+  };
+
+  const toggleLocalReaction = (messageId: string, emoji: string) => {
+    if (!currentUserId) return;
+
+    setMessages((prev) =>
+      prev.map((msg) => {
+        if (msg.id !== messageId) return msg;
 
-    const updatedMessages = messages.map((msg) => {
-      if (msg.id === messageId) {
         const existingReaction = msg.reactions?.find(
-          (r) => r.userId === "you" && r.emoji === emoji
+          (r) => r.userId === currentUserId && r.emoji === emoji
         );
 
         if (existingReaction) {
           return {
             ...msg,
             reactions: msg.reactions?.filter(
-              (r) => !(r.userId === "you" && r.emoji === emoji)
+              (r) => !(r.userId === currentUserId && r.emoji === emoji)
             ),
           };
-        } else {
-          return {
-            ...msg,
-            reactions: [
-              ...(msg.reactions || []),
-              { emoji, userId: "you", timestamp: new Date() },
-            ],
-          };
         }
-      }
-      return msg;
-    });
 
-    setMessages(updatedMessages);
+        return {
+          ...msg,
+          reactions: [
+            ...(msg.reactions || []),
+            {
+              emoji,
+              userId: currentUserId,
+              userName: chatUser?.name,
+              timestamp: new Date(),
+            },
+          ],
+        };
+      })
+    );
+  };
 
-    const updatedGroup = {
-      ...group,
-      messages: updatedMessages,
-    };
+  const handleReaction = async (messageId: string, emoji: string) => {
+    if (!group || !currentUserId) return;
 
-    await StorageService.saveGroup(updatedGroup);
-    setGroup(updatedGroup);
+    // Prevent reactions in expired/archived groups
+    if (group.status === "archived") return;
+
+    const message = messages.find((msg) => msg.id === messageId);
+    const hasReacted = !!message?.reactions?.some(
+      (r) => r.userId === currentUserId && r.emoji === emoji
+    );
+
+    // Apply optimistically; the realtime echo is deduplicated by the service
+    toggleLocalReaction(messageId, emoji);
+
+    const success = hasReacted
+      ? await removeReaction(messageId, emoji)
+      : await addReaction(messageId, emoji);
+
+    if (!success) {
+      toggleLocalReaction(messageId, emoji);
+    }
   };
 
-  const handleShareInviteCode = async () => {
-    if (!group?.inviteCode) return;
+  const handleShareInviteCode = async (code = group?.inviteCode) => {
+    if (!group || !code) return;
 
     try {
       await Share.share({
-        message: `groupbyの招待コード: ${group.inviteCode}\n\nグループ「${group.name}」に参加しよう！`,
+        message: `groupbyの招待コード: ${formatInviteCode(code)}\n${buildInviteLink(code)}\n\nグループ「${group.name}」に参加しよう！`,
         title: "グループに招待",
       });
     } catch (error) {
@@ -178,13 +730,11 @@ const GroupChatScreen: React.FC<GroupChatScreenProps> = ({
         {
           text: "再生成",
           onPress: async () => {
-            const newCode = await StorageService.regenerateInviteCode(group.id);
+            const newCode = await regenerateInviteCode(group.id);
             if (newCode) {
-              const updatedGroup = await StorageService.loadGroup(group.id);
-              if (updatedGroup) {
-                setGroup(updatedGroup);
-                Alert.alert("完了", `新しい招待コード: ${newCode}`);
-              }
+              Alert.alert("完了", `新しい招待コード: ${formatInviteCode(newCode)}`);
+            } else {
+              Alert.alert("エラー", "招待コードの再生成に失敗しました");
             }
           },
         },
@@ -192,8 +742,42 @@ const GroupChatScreen: React.FC<GroupChatScreenProps> = ({
     );
   };
 
+  const handleCreateInvite = async (expiresInHours?: number, maxUses?: number) => {
+    const invite = await createGroupInvite(groupId, expiresInHours, maxUses);
+    if (invite) {
+      setInvites((prev) => [invite, ...prev]);
+    } else {
+      Alert.alert("エラー", "招待の作成に失敗しました");
+    }
+  };
+
+  const handleRevokeInvite = async (invite: GroupInvite) => {
+    const success = await revokeGroupInvite(invite);
+    if (success) {
+      setInvites((prev) =>
+        prev.map((item) =>
+          item.id === invite.id ? { ...item, revoked: true } : item
+        )
+      );
+    } else {
+      Alert.alert("エラー", "招待の無効化に失敗しました");
+    }
+  };
+
+  const handleResolveJoinRequest = async (request: JoinRequest, approve: boolean) => {
+    const success = await resolveJoinRequest(request.id, approve);
+    if (success) {
+      setJoinRequests((prev) => prev.filter((item) => item.id !== request.id));
+    } else {
+      Alert.alert(
+        "エラー",
+        approve ? "参加を承認できませんでした" : "リクエストを拒否できませんでした"
+      );
+    }
+  };
+
   const handleRemoveMember = async (memberId: string, memberName: string) => {
-    if (!group || group.createdBy !== "you") return;
+    if (!group || !isAdmin) return;
 
     Alert.alert("メンバーを削除", `${memberName}をグループから削除しますか？`, [
       { text: "キャンセル", style: "cancel" },
@@ -201,18 +785,8 @@ const GroupChatScreen: React.FC<GroupChatScreenProps> = ({
         text: "削除",
         style: "destructive",
         onPress: async () => {
-          const success = await StorageService.removeMember(
-            group.id,
-            memberId,
-            "you"
-          );
-          if (success) {
-            const updatedGroup = await StorageService.loadGroup(group.id);
-            if (updatedGroup) {
-              setGroup(updatedGroup);
-              setMessages(updatedGroup.messages);
-            }
-          } else {
+          const success = await removeMember(group.id, memberId);
+          if (!success) {
             Alert.alert("エラー", "メンバーの削除に失敗しました");
           }
         },
@@ -220,8 +794,43 @@ const GroupChatScreen: React.FC<GroupChatScreenProps> = ({
     ]);
   };
 
+  const handleReplyPress = (messageId: string) => {
+    const index = messages.findIndex((msg) => msg.id === messageId);
+    if (index === -1) return;
+
+    flatListRef.current?.scrollToIndex({
+      index,
+      animated: true,
+      viewPosition: 0.5,
+    });
+    setHighlightedMessageId(messageId);
+    setTimeout(() => {
+      setHighlightedMessageId((current) =>
+        current === messageId ? null : current
+      );
+    }, 2000);
+  };
+
   const renderMessage = ({ item }: { item: Message }) => (
-    <MessageBubble message={item} onReaction={handleReaction} />
+    <MessageBubble
+      {...(item.isOwnMessage && item.status === "sent"
+        ? getReadReceipts(item)
+        : {})}
+      message={item}
+      onReaction={handleReaction}
+      onLongPress={handleMessageLongPress}
+      replyToMessage={
+        item.replyToId
+          ? messages.find((msg) => msg.id === item.replyToId)
+          : undefined
+      }
+      onReplyPress={handleReplyPress}
+      highlighted={item.id === highlightedMessageId}
+      onEditedPress={handleShowEditHistory}
+      onRetryUpload={handleRetryUpload}
+      onCancelUpload={handleCancelUpload}
+      groupId={hasEnded ? undefined : groupId}
+    />
   );
 
   if (!group) {
@@ -264,9 +873,26 @@ const GroupChatScreen: React.FC<GroupChatScreenProps> = ({
           <View style={styles.headerInfo}>
             <Text style={styles.headerTitle}>{group.name}</Text>
             <Text style={styles.memberCount}>
-              {group.status === "archived" ? "📋 終了済み" : `👥 ${group.members.length}人のメンバー`}
+              {group.status === "archived"
+                ? "📋 終了済み"
+                : `👥 ${group.members.length}人のメンバー` +
+                  (onlineCount > 0 ? `・${onlineCount}人オンライン` : "")}
             </Text>
           </View>
+          {group.status !== "archived" && (
+            <TouchableOpacity
+              style={styles.infoButton}
+              onPress={handleShowNotificationMenu}
+            >
+              <View style={styles.infoButtonCircle}>
+                <Icon
+                  name={isMuted ? "notifications-off-outline" : "notifications-outline"}
+                  size={20}
+                  color="#FFFFFF"
+                />
+              </View>
+            </TouchableOpacity>
+          )}
           <TouchableOpacity
             style={styles.infoButton}
             onPress={() => {
@@ -277,6 +903,15 @@ const GroupChatScreen: React.FC<GroupChatScreenProps> = ({
             <View style={styles.infoButtonCircle}>
               <Text style={styles.infoButtonText}>ⓘ</Text>
             </View>
+            {joinRequests.length > 0 && (
+              <View
+                style={[styles.infoButtonBadge, { backgroundColor: colors.error }]}
+              >
+                <Text style={styles.infoButtonBadgeText}>
+                  {joinRequests.length}
+                </Text>
+              </View>
+            )}
           </TouchableOpacity>
         </View>
       </LinearGradient>
@@ -286,23 +921,55 @@ const GroupChatScreen: React.FC<GroupChatScreenProps> = ({
         behavior={Platform.OS === "ios" ? "padding" : undefined}
         keyboardVerticalOffset={Platform.OS === "ios" ? 90 : 0}
       >
+        {group.status !== "archived" && (
+          <ExtensionPoll
+            group={group}
+            proposal={extensionProposal}
+            currentUserId={currentUserId}
+            onPropose={handleProposeExtension}
+            onVote={handleVoteOnExtension}
+          />
+        )}
+
         <FlatList
           ref={flatListRef}
-          data={messages}
+          data={displayedMessages}
           renderItem={renderMessage}
           keyExtractor={(item) => item.id}
           style={styles.messageList}
           contentContainerStyle={styles.messageListContent}
-          onRefresh={loadGroup}
+          onRefresh={refreshMessages}
           refreshing={refreshing}
           showsVerticalScrollIndicator={false}
+          extraData={[highlightedMessageId, readCursors]}
+          onViewableItemsChanged={handleViewableItemsChanged}
+          viewabilityConfig={viewabilityConfig}
+          onScrollToIndexFailed={({ index, averageItemLength }) => {
+            // Item not measured yet: jump near it, then retry precisely
+            flatListRef.current?.scrollToOffset({
+              offset: index * averageItemLength,
+              animated: false,
+            });
+            setTimeout(() => {
+              flatListRef.current?.scrollToIndex({
+                index,
+                animated: true,
+                viewPosition: 0.5,
+              });
+            }, 100);
+          }}
         />
 
         {group.status !== "archived" ? (
           <MessageInput
             onSendMessage={handleSendMessage}
-            showTypingIndicator={false}
-            recipientName={group.name}
+            showTypingIndicator={!!typingLabel}
+            recipientName={typingLabel}
+            onTypingChange={(isTyping) => sendTypingState(groupId, isTyping)}
+            replyTo={replyTo}
+            onCancelReply={() => setReplyTo(null)}
+            editingMessage={editingMessage}
+            onCancelEdit={() => setEditingMessage(null)}
           />
         ) : (
           <View style={[styles.expiredGroupNotice, { backgroundColor: colors.surface }]}>
@@ -424,20 +1091,33 @@ const GroupChatScreen: React.FC<GroupChatScreenProps> = ({
                       },
                     ]}
                   >
-                    {group?.inviteCode || "N/A"}
+                    {group?.inviteCode ? formatInviteCode(group.inviteCode) : "N/A"}
                   </Text>
+                  {group?.inviteCode && (
+                    <View style={styles.inviteQrCode}>
+                      <QRCode
+                        value={buildInviteLink(group.inviteCode)}
+                        size={180}
+                        color="#000000"
+                        backgroundColor="#FFFFFF"
+                      />
+                      <Text style={styles.inviteQrCodeHint}>
+                        カメラで読み取って参加
+                      </Text>
+                    </View>
+                  )}
                   <View style={styles.inviteActions}>
                     <TouchableOpacity
                       style={[
                         styles.inviteButton,
                         { backgroundColor: colors.primary },
                       ]}
-                      onPress={handleShareInviteCode}
+                      onPress={() => handleShareInviteCode()}
                     >
                       <Icon name="share-outline" size={18} color="#FFFFFF" />
                       <Text style={styles.inviteButtonText}>共有</Text>
                     </TouchableOpacity>
-                    {group?.createdBy === "you" && (
+                    {isAdmin && (
                       <TouchableOpacity
                         style={[
                           styles.inviteButton,
@@ -458,6 +1138,55 @@ const GroupChatScreen: React.FC<GroupChatScreenProps> = ({
               </View>
             )}
 
+            {/* Join requests (admins) */}
+            {canManageInvites &&
+              (group?.settings.requireApproval || joinRequests.length > 0) && (
+                <View
+                  style={[
+                    styles.detailsSection,
+                    { backgroundColor: colors.surface },
+                  ]}
+                >
+                  <Text
+                    style={[
+                      styles.detailsSectionTitle,
+                      { color: colors.textSecondary },
+                    ]}
+                  >
+                    参加リクエスト ({joinRequests.length}件)
+                  </Text>
+                  <JoinRequestList
+                    requests={joinRequests}
+                    onResolve={handleResolveJoinRequest}
+                  />
+                </View>
+              )}
+
+            {/* Invites (admins) */}
+            {canManageInvites && (
+              <View
+                style={[
+                  styles.detailsSection,
+                  { backgroundColor: colors.surface },
+                ]}
+              >
+                <Text
+                  style={[
+                    styles.detailsSectionTitle,
+                    { color: colors.textSecondary },
+                  ]}
+                >
+                  招待の管理
+                </Text>
+                <InviteManager
+                  invites={invites}
+                  onCreate={handleCreateInvite}
+                  onRevoke={handleRevokeInvite}
+                  onShare={(invite) => handleShareInviteCode(invite.code)}
+                />
+              </View>
+            )}
+
             {/* Creator */}
             <View
               style={[
@@ -507,11 +1236,22 @@ const GroupChatScreen: React.FC<GroupChatScreenProps> = ({
                     <Text style={styles.memberAvatarText}>
                       {member.name.charAt(0).toUpperCase()}
                     </Text>
+                    {renderPresenceDot(member.id)}
                   </LinearGradient>
                   <View style={styles.memberInfo}>
                     <Text style={[styles.memberName, { color: colors.text }]}>
                       {member.name}
                     </Text>
+                    {getPresenceLabel(member) && (
+                      <Text
+                        style={[
+                          styles.memberPresence,
+                          { color: colors.textSecondary },
+                        ]}
+                      >
+                        {getPresenceLabel(member)}
+                      </Text>
+                    )}
                     {member.id === group?.createdBy && (
                       <Text
                         style={[styles.memberRole, { color: colors.primary }]}
@@ -520,8 +1260,8 @@ const GroupChatScreen: React.FC<GroupChatScreenProps> = ({
                       </Text>
                     )}
                   </View>
-                  {group?.createdBy === "you" &&
-                    member.id !== "you" &&
+                  {isAdmin &&
+                    member.id !== currentUserId &&
                     group?.status !== "archived" && (
                       <TouchableOpacity
                         style={[
@@ -571,6 +1311,16 @@ const GroupChatScreen: React.FC<GroupChatScreenProps> = ({
           </ScrollView>
         </SafeAreaView>
       </Modal>
+
+      <ReactionPicker
+        visible={!!reactionTarget}
+        onClose={() => setReactionTarget(null)}
+        onSelectReaction={(emoji) => {
+          if (reactionTarget) {
+            handleReaction(reactionTarget.id, emoji);
+          }
+        }}
+      />
     </SafeAreaView>
   );
 };
@@ -646,6 +1396,22 @@ const styles = StyleSheet.create({
     fontWeight: "bold",
     color: "#FFFFFF",
   },
+  infoButtonBadge: {
+    position: "absolute",
+    top: -2,
+    right: -2,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 4,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  infoButtonBadgeText: {
+    color: "#FFFFFF",
+    fontSize: 11,
+    fontWeight: "bold",
+  },
   keyboardAvoidingView: {
     flex: 1,
   },
@@ -739,9 +1505,22 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: "bold",
   },
+  presenceDot: {
+    position: "absolute",
+    right: -1,
+    bottom: -1,
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    borderWidth: 2,
+  },
   memberInfo: {
     flex: 1,
   },
+  memberPresence: {
+    fontSize: 12,
+    marginBottom: 2,
+  },
   memberName: {
     fontSize: 16,
     fontWeight: "500",
@@ -765,6 +1544,20 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     letterSpacing: 2,
   },
+  inviteQrCode: {
+    alignSelf: "center",
+    alignItems: "center",
+    marginTop: 12,
+    padding: 16,
+    borderRadius: 12,
+    // QR codes need a light background to scan, whatever the theme
+    backgroundColor: "#FFFFFF",
+  },
+  inviteQrCodeHint: {
+    marginTop: 8,
+    fontSize: 12,
+    color: "#6B7280",
+  },
   inviteActions: {
     flexDirection: "row",
     justifyContent: "center",
@@ -28,7 +28,7 @@ interface HomeScreenProps {
 
 const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
   const { theme } = useTheme();
-  const { activeGroups, loading, refreshGroups, processExpiredGroups } = useGroups();
+  const { activeGroups, loading, refreshGroups } = useGroups();
   const colors = getThemeColors(theme);
   const [currentTime, setCurrentTime] = useState(new Date());
   const [refreshing, setRefreshing] = useState(false);
@@ -36,7 +36,6 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
   useEffect(() => {
     const timer = setInterval(() => {
       setCurrentTime(new Date());
-      checkExpiredGroups();
     }, 1000);
 
     return () => clearInterval(timer);
@@ -56,21 +55,6 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
     setRefreshing(false);
   };
 
-  const checkExpiredGroups = async () => {
-    const now = new Date();
-    let hasExpired = false;
-
-    activeGroups.forEach((group) => {
-      if (group.settings.expirationTime?.getTime() <= now.getTime()) {
-        hasExpired = true;
-      }
-    });
-
-    if (hasExpired) {
-      await processExpiredGroups();
-    }
-  };
-
   const formatTimeRemaining = (expirationTime: Date): string => {
     const now = currentTime;
     const diff = expirationTime.getTime() - now.getTime();
@@ -251,7 +235,10 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
                     ]}
                     numberOfLines={1}
                   >
-                    {item.lastMessage.sender}: {item.lastMessage.text}
+                    {item.lastMessage.sender}:{" "}
+                    {item.lastMessage.isDeleted
+                      ? "このメッセージは削除されました"
+                      : item.lastMessage.text}
                   </Text>
                 )}
               </View>
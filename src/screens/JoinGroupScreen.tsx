@@ -17,7 +17,16 @@ import {
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useTheme } from "../contexts/ThemeContext";
 import { getThemeColors } from "../utils/themes";
-import { StorageService } from "../services/storage";
+import { useGroups } from "../contexts/GroupContext";
+import InviteQrScanner from "../components/InviteQrScanner";
+import { MAX_GROUP_MEMBERS } from "../services/supabaseService";
+import { GroupInvitePreview } from "../types";
+import {
+  INVITE_CODE_LENGTH,
+  isValidInviteCode,
+  normalizeInviteCode,
+  parseInviteLink,
+} from "../utils/inviteLinks";
 import * as Haptics from "expo-haptics";
 import { LinearGradient } from "expo-linear-gradient";
 import { BlurView } from "expo-blur";
@@ -25,38 +34,119 @@ import Icon from "react-native-vector-icons/Ionicons";
 
 interface JoinGroupScreenProps {
   navigation: any;
+  route?: {
+    params?: {
+      code?: string; // Prefilled from an invite link
+    };
+  };
 }
 
-const JoinGroupScreen: React.FC<JoinGroupScreenProps> = ({ navigation }) => {
+const formatTimeRemaining = (expirationTime: Date): string => {
+  const diff = expirationTime.getTime() - Date.now();
+  if (diff <= 0) return "まもなく終了";
+
+  const days = Math.floor(diff / (1000 * 60 * 60 * 24));
+  const hours = Math.floor((diff % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
+  const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
+
+  if (days > 0) return `残り${days}日 ${hours}時間`;
+  if (hours > 0) return `残り${hours}時間 ${minutes}分`;
+  return `残り${Math.max(minutes, 1)}分`;
+};
+
+const JoinGroupScreen: React.FC<JoinGroupScreenProps> = ({
+  navigation,
+  route,
+}) => {
   const { theme } = useTheme();
   const colors = getThemeColors(theme);
+  const {
+    joinGroupWithCode,
+    previewGroupByInvite,
+    subscribeToOwnJoinRequests,
+    refreshGroups,
+  } = useGroups();
+  const linkedCode = route?.params?.code;
   const [inviteCode, setInviteCode] = useState("");
-  const [userName, setUserName] = useState("");
+  const [preview, setPreview] = useState<GroupInvitePreview | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
   const [isJoining, setIsJoining] = useState(false);
+  const [showScanner, setShowScanner] = useState(false);
+  // Group whose admins still have to approve our join request
+  const [pendingGroupId, setPendingGroupId] = useState<string | null>(null);
   const [showError, setShowError] = useState(false);
   const [errorMessage, setErrorMessage] = useState("");
   const codeInputRefs = useRef<Array<TextInput | null>>([]);
   const shakeAnimation = useRef(new Animated.Value(0)).current;
   const fadeAnimation = useRef(new Animated.Value(0)).current;
   const scaleAnimations = useRef(
-    Array.from({ length: 6 }, () => new Animated.Value(1))
+    Array.from({ length: INVITE_CODE_LENGTH }, () => new Animated.Value(1))
   ).current;
+  const codeComplete = isValidInviteCode(inviteCode);
+  const isFull =
+    !!preview && !preview.isMember && preview.memberCount >= MAX_GROUP_MEMBERS;
+  const isPending = !!preview && pendingGroupId === preview.id;
+  const canJoin = !!preview && !isFull && !isJoining && !isPending;
 
+  // Prefill from an invite link, including links opened while on this screen
   useEffect(() => {
-    // Load current user profile
-    loadUserProfile();
-  }, []);
+    if (!linkedCode) return;
 
-  const loadUserProfile = async () => {
-    try {
-      const user = await StorageService.getCurrentUser();
-      if (user) {
-        setUserName(user.name);
-      }
-    } catch (error) {
-      console.error("Failed to load user profile:", error);
+    const code = normalizeInviteCode(linkedCode);
+    if (isValidInviteCode(code)) {
+      setInviteCode(code);
+    } else {
+      showErrorAnimation("招待リンクが正しくありません");
     }
-  };
+  }, [linkedCode]);
+
+  // Show which group the code belongs to before joining
+  useEffect(() => {
+    setPreview(null);
+    if (!codeComplete) return;
+
+    let cancelled = false;
+    setPreviewLoading(true);
+    previewGroupByInvite(inviteCode).then((result) => {
+      if (cancelled) return;
+      setPreview(result);
+      setPreviewLoading(false);
+      if (result?.hasPendingRequest) {
+        setPendingGroupId(result.id);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      setPreviewLoading(false);
+    };
+  }, [inviteCode, codeComplete]);
+
+  // Wait for an admin to decide on our join request
+  useEffect(() => {
+    if (!pendingGroupId) return;
+
+    return subscribeToOwnJoinRequests(async (groupId, approved) => {
+      if (groupId !== pendingGroupId) return;
+
+      setPendingGroupId(null);
+      if (!approved) {
+        showErrorAnimation("参加リクエストが承認されませんでした");
+        return;
+      }
+
+      await refreshGroups();
+      Alert.alert("承認されました", "グループに参加しました！", [
+        {
+          text: "OK",
+          onPress: () => {
+            navigation.navigate("MainTabs");
+            navigation.navigate("GroupChat", { groupId });
+          },
+        },
+      ]);
+    });
+  }, [pendingGroupId]);
 
   const showErrorAnimation = (message: string) => {
     setErrorMessage(message);
@@ -136,7 +226,7 @@ const JoinGroupScreen: React.FC<JoinGroupScreenProps> = ({ navigation }) => {
     }
 
     // Auto-focus next input
-    if (text && index < 5) {
+    if (text && index < INVITE_CODE_LENGTH - 1) {
       codeInputRefs.current[index + 1]?.focus();
     }
   };
@@ -150,55 +240,54 @@ const JoinGroupScreen: React.FC<JoinGroupScreenProps> = ({ navigation }) => {
   const handleJoinGroup = async () => {
     const code = inviteCode.trim();
 
-    if (code.length !== 6) {
-      showErrorAnimation("6文字の招待コードを入力してください");
+    if (!isValidInviteCode(code)) {
+      showErrorAnimation(`${INVITE_CODE_LENGTH}文字の招待コードを入力してください`);
       return;
     }
 
-    if (!userName.trim()) {
-      showErrorAnimation("名前を入力してください");
+    if (preview?.isMember) {
+      navigation.navigate("MainTabs");
+      navigation.navigate("GroupChat", { groupId: preview.id });
       return;
     }
 
     setIsJoining(true);
     await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
 
-    // Generate a unique user ID (in production, this would be from authentication)
-    const userId = `user_${Date.now()}_${Math.random()
-      .toString(36)
-      .substr(2, 9)}`;
-
-    const group = await StorageService.joinGroupWithCode(
-      code,
-      userId,
-      userName.trim()
-    );
+    const result = await joinGroupWithCode(code);
 
     setIsJoining(false);
 
-    if (group) {
+    if (result.status === "joined") {
+      const { group } = result;
       Alert.alert("成功", `グループ「${group.name}」に参加しました！`, [
         {
           text: "OK",
           onPress: () => {
-            navigation.navigate("Home");
+            navigation.navigate("MainTabs");
             navigation.navigate("GroupChat", { groupId: group.id });
           },
         },
       ]);
-    } else {
+    } else if (result.status === "pending") {
+      setPendingGroupId(result.groupId);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } else if (result.status === "rate_limited") {
+      showErrorAnimation("試行回数が多すぎます。しばらくしてからお試しください");
+    } else if (result.status === "invalid") {
       showErrorAnimation("無効な招待コード、または期限切れです");
+    } else {
+      showErrorAnimation("グループに参加できませんでした");
     }
   };
 
   const handlePasteCode = async () => {
     try {
       const clipboardContent = await Clipboard.getString();
-      const cleanedCode = clipboardContent
-        .replace(/[^A-Za-z0-9]/g, "")
-        .toUpperCase();
+      // Accept invite links as well as bare codes
+      const cleanedCode = parseInviteLink(clipboardContent);
 
-      if (cleanedCode.length === 6) {
+      if (cleanedCode) {
         setInviteCode(cleanedCode);
 
         // Animate all input boxes
@@ -230,6 +319,11 @@ const JoinGroupScreen: React.FC<JoinGroupScreenProps> = ({ navigation }) => {
     }
   };
 
+  const handleScannedCode = (code: string) => {
+    setShowScanner(false);
+    setInviteCode(code);
+  };
+
   return (
     <SafeAreaView
       style={[styles.container, { backgroundColor: colors.background }]}
@@ -278,7 +372,7 @@ const JoinGroupScreen: React.FC<JoinGroupScreenProps> = ({ navigation }) => {
             </View>
 
             <Text style={[styles.instructionText, { color: colors.text }]}>
-              6文字の招待コードを入力してください
+              {INVITE_CODE_LENGTH}文字の招待コードを入力してください
             </Text>
 
             <Animated.View
@@ -289,7 +383,7 @@ const JoinGroupScreen: React.FC<JoinGroupScreenProps> = ({ navigation }) => {
                 },
               ]}
             >
-              {[0, 1, 2, 3, 4, 5].map((index) => (
+              {scaleAnimations.map((_, index) => (
                 <Animated.View
                   key={index}
                   style={{
@@ -366,55 +460,142 @@ const JoinGroupScreen: React.FC<JoinGroupScreenProps> = ({ navigation }) => {
               </Animated.View>
             )}
 
-            <TouchableOpacity
-              style={styles.pasteButton}
-              onPress={handlePasteCode}
-            >
-              <Icon name="clipboard-outline" size={16} color={colors.primary} />
-              <Text style={[styles.pasteButtonText, { color: colors.primary }]}>
-                コードを貼り付け
-              </Text>
-            </TouchableOpacity>
+            <View style={styles.codeActions}>
+              <TouchableOpacity
+                style={styles.pasteButton}
+                onPress={handlePasteCode}
+              >
+                <Icon name="clipboard-outline" size={16} color={colors.primary} />
+                <Text style={[styles.pasteButtonText, { color: colors.primary }]}>
+                  コードを貼り付け
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.pasteButton}
+                onPress={() => {
+                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                  setShowScanner(true);
+                }}
+              >
+                <Icon name="qr-code-outline" size={16} color={colors.primary} />
+                <Text style={[styles.pasteButtonText, { color: colors.primary }]}>
+                  QRコードを読み取る
+                </Text>
+              </TouchableOpacity>
+            </View>
 
-            <View style={styles.inputSection}>
-              <Text style={[styles.inputLabel, { color: colors.text }]}>
-                あなたの名前
-              </Text>
-              <BlurView intensity={60} tint={theme} style={styles.inputBlur}>
-                <TextInput
-                  style={[styles.nameInput, { color: colors.text }]}
-                  placeholder="表示名を入力"
-                  placeholderTextColor={colors.textSecondary + "80"}
-                  value={userName}
-                  onChangeText={setUserName}
-                  maxLength={20}
-                />
+            {codeComplete && (
+              <BlurView intensity={60} tint={theme} style={styles.previewBlur}>
+                <View style={styles.previewContent}>
+                  {previewLoading ? (
+                    <ActivityIndicator size="small" color={colors.primary} />
+                  ) : preview ? (
+                    <>
+                      <Text
+                        style={[styles.previewName, { color: colors.text }]}
+                        numberOfLines={1}
+                      >
+                        {preview.name}
+                      </Text>
+                      <View style={styles.previewDetails}>
+                        <View style={styles.previewDetail}>
+                          <Icon
+                            name="people-outline"
+                            size={14}
+                            color={colors.textSecondary}
+                          />
+                          <Text
+                            style={[
+                              styles.previewDetailText,
+                              { color: colors.textSecondary },
+                            ]}
+                          >
+                            {preview.memberCount}人のメンバー
+                          </Text>
+                        </View>
+                        <View style={styles.previewDetail}>
+                          <Icon
+                            name="time-outline"
+                            size={14}
+                            color={colors.textSecondary}
+                          />
+                          <Text
+                            style={[
+                              styles.previewDetailText,
+                              { color: colors.textSecondary },
+                            ]}
+                          >
+                            {preview.expirationTime
+                              ? formatTimeRemaining(preview.expirationTime)
+                              : "無期限"}
+                          </Text>
+                        </View>
+                      </View>
+                      {preview.isMember && (
+                        <Text
+                          style={[
+                            styles.previewDetailText,
+                            { color: colors.primary },
+                          ]}
+                        >
+                          参加済みのグループです
+                        </Text>
+                      )}
+                      {isPending ? (
+                        <Text
+                          style={[
+                            styles.previewDetailText,
+                            { color: colors.primary },
+                          ]}
+                        >
+                          管理者の承認を待っています
+                        </Text>
+                      ) : (
+                        preview.requireApproval &&
+                        !preview.isMember && (
+                          <Text
+                            style={[
+                              styles.previewDetailText,
+                              { color: colors.textSecondary },
+                            ]}
+                          >
+                            参加には管理者の承認が必要です
+                          </Text>
+                        )
+                      )}
+                      {isFull && (
+                        <Text
+                          style={[
+                            styles.previewDetailText,
+                            { color: colors.error },
+                          ]}
+                        >
+                          このグループは満員です
+                        </Text>
+                      )}
+                    </>
+                  ) : (
+                    <Text
+                      style={[styles.previewDetailText, { color: colors.error }]}
+                    >
+                      無効な招待コード、または期限切れです
+                    </Text>
+                  )}
+                </View>
               </BlurView>
-            </View>
+            )}
 
             <TouchableOpacity
               style={[
                 styles.joinButton,
-                (!inviteCode.trim() ||
-                  inviteCode.length !== 6 ||
-                  !userName.trim() ||
-                  isJoining) &&
-                  styles.joinButtonDisabled,
+                !canJoin && styles.joinButtonDisabled,
               ]}
               onPress={handleJoinGroup}
-              disabled={
-                !inviteCode.trim() ||
-                inviteCode.length !== 6 ||
-                !userName.trim() ||
-                isJoining
-              }
+              disabled={!canJoin}
             >
               <LinearGradient
                 colors={
-                  inviteCode.trim() &&
-                  inviteCode.length === 6 &&
-                  userName.trim() &&
-                  !isJoining
+                  canJoin
                     ? [colors.primary, colors.primaryDark]
                     : [colors.disabled, colors.disabled]
                 }
@@ -430,7 +611,15 @@ const JoinGroupScreen: React.FC<JoinGroupScreenProps> = ({ navigation }) => {
                     </Text>
                   </View>
                 ) : (
-                  <Text style={styles.joinButtonText}>グループに参加</Text>
+                  <Text style={styles.joinButtonText}>
+                    {preview?.isMember
+                      ? "グループを開く"
+                      : isPending
+                      ? "承認待ち"
+                      : preview?.requireApproval
+                      ? "参加をリクエスト"
+                      : "グループに参加"}
+                  </Text>
                 )}
               </LinearGradient>
             </TouchableOpacity>
@@ -455,6 +644,12 @@ const JoinGroupScreen: React.FC<JoinGroupScreenProps> = ({ navigation }) => {
           </View>
         </ScrollView>
       </KeyboardAvoidingView>
+
+      <InviteQrScanner
+        visible={showScanner}
+        onScanned={handleScannedCode}
+        onClose={() => setShowScanner(false)}
+      />
     </SafeAreaView>
   );
 };
@@ -516,7 +711,7 @@ const styles = StyleSheet.create({
   },
   codeInputContainer: {
     flexDirection: "row",
-    gap: 8,
+    gap: 6,
     marginBottom: 16,
   },
   codeInputBlur: {
@@ -524,44 +719,58 @@ const styles = StyleSheet.create({
     overflow: "hidden",
   },
   codeInput: {
-    width: 48,
-    height: 56,
-    fontSize: 24,
+    width: 36,
+    height: 48,
+    fontSize: 20,
     fontWeight: "bold",
     textAlign: "center",
     borderRadius: 12,
   },
+  codeActions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    marginBottom: 32,
+  },
   pasteButton: {
     flexDirection: "row",
     alignItems: "center",
     gap: 4,
     paddingVertical: 8,
     paddingHorizontal: 12,
-    marginBottom: 32,
   },
   pasteButtonText: {
     fontSize: 14,
     fontWeight: "500",
   },
-  inputSection: {
+  previewBlur: {
     width: "100%",
     marginBottom: 32,
-  },
-  inputLabel: {
-    fontSize: 14,
-    fontWeight: "600",
-    marginBottom: 8,
-    marginLeft: 4,
-  },
-  inputBlur: {
     borderRadius: 12,
     overflow: "hidden",
   },
-  nameInput: {
+  previewContent: {
     padding: 16,
-    fontSize: 16,
+    gap: 8,
+    alignItems: "center",
     backgroundColor: "rgba(255, 255, 255, 0.05)",
   },
+  previewName: {
+    fontSize: 18,
+    fontWeight: "700",
+  },
+  previewDetails: {
+    flexDirection: "row",
+    gap: 16,
+  },
+  previewDetail: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  previewDetailText: {
+    fontSize: 13,
+  },
   joinButton: {
     width: "100%",
     borderRadius: 16,
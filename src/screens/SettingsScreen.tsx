@@ -13,44 +13,50 @@ import {
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useTheme } from "../contexts/ThemeContext";
+import { useAuth } from "../contexts/AuthContext";
 import { getThemeColors } from "../utils/themes";
 import {
-  groupbySettings,
+  GroupbySettings,
   GroupLifespan,
   Theme,
   UserProfile,
 } from "../types";
 import { StorageService } from "../services/storage";
+import {
+  notificationService,
+  EXPIRY_WARNING_OPTIONS,
+} from "../services/notificationService";
+import {
+  MediaStorageService,
+  MEDIA_CACHE_LIMIT_OPTIONS,
+} from "../services/mediaStorage";
 import * as Haptics from "expo-haptics";
 import { LinearGradient } from "expo-linear-gradient";
 import { BlurView } from "expo-blur";
 import Icon from "react-native-vector-icons/Ionicons";
 
 const SettingsScreen: React.FC = () => {
-  const { theme, setTheme } = useTheme();
+  const { theme, setTheme, settings, updateSettings } = useTheme();
+  const { profile, updateProfile } = useAuth();
   const colors = getThemeColors(theme);
-  const [settings, setSettings] = useState<groupbySettings>({
-    theme: theme,
-    enableHaptics: true,
-    enableTypingIndicator: true,
-    defaultGroupLifespan: "24_hours",
-    showExpirationWarnings: true,
-    archiveRetentionDays: 30,
-    autoJoinSuggestions: false,
-  });
   const [showProfileEdit, setShowProfileEdit] = useState(false);
   const [editedName, setEditedName] = useState("");
   const [currentUser, setCurrentUser] = useState<UserProfile | null>(null);
+  const [cacheUsage, setCacheUsage] = useState(0);
 
   useEffect(() => {
-    loadSettings();
     loadUserProfile();
   }, []);
 
-  const loadSettings = async () => {
-    const loadedSettings = await StorageService.loadSettings();
-    setSettings(loadedSettings);
-  };
+  // Track cache usage as media is downloaded and evicted
+  useEffect(() => {
+    const loadCacheUsage = async () => {
+      setCacheUsage(await MediaStorageService.getUsage());
+    };
+
+    loadCacheUsage();
+    return MediaStorageService.subscribe(loadCacheUsage);
+  }, []);
 
   const loadUserProfile = async () => {
     const user = await StorageService.getCurrentUser();
@@ -58,11 +64,6 @@ const SettingsScreen: React.FC = () => {
     setEditedName(user.name);
   };
 
-  const saveSettings = async (newSettings: groupbySettings) => {
-    await StorageService.saveSettings(newSettings);
-    setSettings(newSettings);
-  };
-
   const handleSaveProfile = async () => {
     if (!editedName.trim()) {
       Alert.alert("エラー", "名前を入力してください");
@@ -86,19 +87,72 @@ const SettingsScreen: React.FC = () => {
       await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     }
     setTheme(newTheme);
-    const newSettings = { ...settings, theme: newTheme };
-    await saveSettings(newSettings);
   };
 
   const handleToggleSetting = async (
-    key: keyof groupbySettings,
+    key: keyof GroupbySettings,
     value: boolean
   ) => {
     if (settings.enableHaptics) {
       await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     }
-    const newSettings = { ...settings, [key]: value };
-    await saveSettings(newSettings);
+    updateSettings({ [key]: value });
+  };
+
+  const handleToggleExpirationWarnings = async (value: boolean) => {
+    if (value && !(await notificationService.requestPermissions())) {
+      Alert.alert(
+        "通知が許可されていません",
+        "端末の設定から通知を許可してください"
+      );
+      return;
+    }
+    handleToggleSetting("showExpirationWarnings", value);
+  };
+
+  const handleToggleWarningOffset = async (minutes: number) => {
+    if (settings.enableHaptics) {
+      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    const current = settings.expiryWarningMinutes;
+    const updated = current.includes(minutes)
+      ? current.filter((offset) => offset !== minutes)
+      : [...current, minutes].sort((a, b) => b - a);
+    updateSettings({ expiryWarningMinutes: updated });
+  };
+
+  const handleToggleHideLastSeen = async (value: boolean) => {
+    if (settings.enableHaptics) {
+      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    const { error } = await updateProfile({ hide_last_seen: value });
+    if (error) {
+      Alert.alert("エラー", "設定の保存に失敗しました");
+    }
+  };
+
+  const handleCacheLimitChange = async (megabytes: number) => {
+    if (settings.enableHaptics) {
+      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    updateSettings({ mediaCacheLimitMB: megabytes });
+  };
+
+  const handleClearCache = () => {
+    Alert.alert(
+      "キャッシュを削除",
+      "端末に保存された画像と動画を削除しますか？メディアは次に表示したときに再度ダウンロードされます。",
+      [
+        { text: "キャンセル", style: "cancel" },
+        {
+          text: "削除",
+          style: "destructive",
+          onPress: async () => {
+            await MediaStorageService.clear();
+          },
+        },
+      ]
+    );
   };
 
   const handleClearData = () => {
@@ -318,9 +372,7 @@ const SettingsScreen: React.FC = () => {
             value={
               <Switch
                 value={settings.showExpirationWarnings}
-                onValueChange={(value) =>
-                  handleToggleSetting("showExpirationWarnings", value)
-                }
+                onValueChange={handleToggleExpirationWarnings}
                 trackColor={{
                   false: colors.border,
                   true: colors.primary + "80",
@@ -331,9 +383,63 @@ const SettingsScreen: React.FC = () => {
               />
             }
           />
+          {settings.showExpirationWarnings && (
+            <View style={styles.warningOffsets}>
+              {EXPIRY_WARNING_OPTIONS.map((option) => {
+                const selected = settings.expiryWarningMinutes.includes(
+                  option.minutes
+                );
+                return (
+                  <TouchableOpacity
+                    key={option.minutes}
+                    style={[
+                      styles.themeButton,
+                      selected && styles.themeButtonActive,
+                      {
+                        borderColor: selected ? colors.primary : colors.border,
+                      },
+                    ]}
+                    onPress={() => handleToggleWarningOffset(option.minutes)}
+                  >
+                    <Text
+                      style={[
+                        styles.themeButtonText,
+                        {
+                          color: selected
+                            ? colors.primary
+                            : colors.textSecondary,
+                        },
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
         </SettingSection>
 
         <SettingSection title="インタラクション">
+          <SettingRow
+            icon="chatbubble-ellipses-outline"
+            label="入力中の表示"
+            value={
+              <Switch
+                value={settings.enableTypingIndicator}
+                onValueChange={(value) =>
+                  handleToggleSetting("enableTypingIndicator", value)
+                }
+                trackColor={{
+                  false: colors.border,
+                  true: colors.primary + "80",
+                }}
+                thumbColor={
+                  settings.enableTypingIndicator ? colors.primary : "#f4f3f4"
+                }
+              />
+            }
+          />
           <SettingRow
             icon="phone-portrait-outline"
             label="触覚フィードバック"
@@ -372,6 +478,85 @@ const SettingsScreen: React.FC = () => {
           )}
         </SettingSection>
 
+        <SettingSection title="プライバシー">
+          <SettingRow
+            icon="eye-off-outline"
+            label="最終アクセスを非表示"
+            value={
+              <Switch
+                value={!!profile?.hide_last_seen}
+                onValueChange={handleToggleHideLastSeen}
+                disabled={!profile}
+                trackColor={{
+                  false: colors.border,
+                  true: colors.primary + "80",
+                }}
+                thumbColor={
+                  profile?.hide_last_seen ? colors.primary : "#f4f3f4"
+                }
+              />
+            }
+          />
+        </SettingSection>
+
+        <SettingSection title="メディアキャッシュ">
+          <SettingRow
+            icon="folder-outline"
+            label="使用中の容量"
+            value={
+              <Text
+                style={[styles.settingValue, { color: colors.textSecondary }]}
+              >
+                {MediaStorageService.formatFileSize(cacheUsage) || "0 Bytes"} /{" "}
+                {MediaStorageService.formatFileSize(
+                  settings.mediaCacheLimitMB * 1024 * 1024
+                )}
+              </Text>
+            }
+          />
+          <View style={styles.warningOffsets}>
+            {MEDIA_CACHE_LIMIT_OPTIONS.map((option) => {
+              const selected = settings.mediaCacheLimitMB === option.megabytes;
+              return (
+                <TouchableOpacity
+                  key={option.megabytes}
+                  style={[
+                    styles.themeButton,
+                    selected && styles.themeButtonActive,
+                    {
+                      borderColor: selected ? colors.primary : colors.border,
+                    },
+                  ]}
+                  onPress={() => handleCacheLimitChange(option.megabytes)}
+                >
+                  <Text
+                    style={[
+                      styles.themeButtonText,
+                      {
+                        color: selected ? colors.primary : colors.textSecondary,
+                      },
+                    ]}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <TouchableOpacity
+            style={[
+              styles.testButton,
+              { backgroundColor: colors.error + "15" },
+            ]}
+            onPress={handleClearCache}
+            disabled={cacheUsage === 0}
+          >
+            <Text style={[styles.testButtonText, { color: colors.error }]}>
+              キャッシュを削除
+            </Text>
+          </TouchableOpacity>
+        </SettingSection>
+
         <SettingSection title="データ管理">
           <TouchableOpacity
             style={[
@@ -562,6 +747,13 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     alignItems: "center",
   },
+  warningOffsets: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+  },
   testButton: {
     marginHorizontal: 16,
     marginVertical: 8,
@@ -0,0 +1,150 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { ResumableUpload, UPLOAD_CHUNK_SIZE, resumableUploadService } from '../resumableUpload';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('expo-file-system', () => ({
+  readAsStringAsync: jest.fn(async () => 'AAAA'),
+  EncodingType: { Base64: 'base64' },
+}));
+
+jest.mock('../../utils/supabase', () => ({
+  STORAGE_UPLOAD_URL: 'https://storage.test/upload/resumable',
+  supabase: {
+    auth: {
+      getSession: jest.fn(async () => ({ data: { session: { access_token: 'token' } } })),
+    },
+  },
+}));
+
+const UPLOAD_URL = 'https://storage.test/upload/resumable/abc';
+
+const fetchMock = jest.fn<Promise<Response>, [string, RequestInit]>();
+const readMock = FileSystem.readAsStringAsync as jest.Mock;
+
+function respond(status: number, headers: Record<string, string> = {}): Response {
+  return {
+    status,
+    ok: status >= 200 && status < 300,
+    headers: { get: (name: string) => headers[name] ?? null },
+    text: async () => '',
+  } as unknown as Response;
+}
+
+function requests(method: string): RequestInit[] {
+  return fetchMock.mock.calls.map(([, init]) => init).filter(init => init.method === method);
+}
+
+function offsetsSent(): string[] {
+  return requests('PATCH').map(init => (init.headers as Record<string, string>)['Upload-Offset']);
+}
+
+function makeUpload(overrides: Partial<ResumableUpload> = {}): ResumableUpload {
+  return {
+    id: 'upload-1',
+    fileUri: 'file:///video.mp4',
+    bucket: 'media',
+    objectName: 'group-1/video.mp4',
+    contentType: 'video/mp4',
+    size: 10,
+    createdAt: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+beforeAll(() => {
+  global.fetch = fetchMock as unknown as typeof fetch;
+});
+
+beforeEach(async () => {
+  fetchMock.mockReset();
+  readMock.mockClear();
+  await AsyncStorage.clear();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('resumableUploadService.start', () => {
+  it('resumes from the offset the server reports', async () => {
+    const size = 2 * UPLOAD_CHUNK_SIZE + 100;
+    fetchMock
+      .mockResolvedValueOnce(respond(200, { 'Upload-Offset': String(UPLOAD_CHUNK_SIZE) }))
+      .mockResolvedValueOnce(respond(204, { 'Upload-Offset': String(2 * UPLOAD_CHUNK_SIZE) }))
+      .mockResolvedValueOnce(respond(204, { 'Upload-Offset': String(size) }));
+    const progress: number[] = [];
+
+    const done = await resumableUploadService.start(
+      makeUpload({ size, uploadUrl: UPLOAD_URL }),
+      p => progress.push(p)
+    );
+
+    expect(done).toBe(true);
+    expect(requests('POST')).toHaveLength(0);
+    expect(requests('HEAD')).toHaveLength(1);
+    expect(offsetsSent()).toEqual([String(UPLOAD_CHUNK_SIZE), String(2 * UPLOAD_CHUNK_SIZE)]);
+    expect(readMock.mock.calls.map(([, options]) => [options.position, options.length])).toEqual([
+      [UPLOAD_CHUNK_SIZE, UPLOAD_CHUNK_SIZE],
+      [2 * UPLOAD_CHUNK_SIZE, 100],
+    ]);
+    expect(progress[0]).toBeCloseTo(UPLOAD_CHUNK_SIZE / size);
+    expect(progress[progress.length - 1]).toBe(1);
+  });
+
+  it('starts over when the server no longer knows the upload', async () => {
+    fetchMock
+      .mockResolvedValueOnce(respond(404))
+      .mockResolvedValueOnce(respond(201, { Location: UPLOAD_URL }))
+      .mockResolvedValueOnce(respond(204, { 'Upload-Offset': '10' }));
+
+    const done = await resumableUploadService.start(makeUpload({ uploadUrl: `${UPLOAD_URL}-old` }));
+
+    expect(done).toBe(true);
+    expect(requests('POST')).toHaveLength(1);
+    expect(offsetsSent()).toEqual(['0']);
+  });
+
+  it('retries a failed chunk from the offset the server kept', async () => {
+    jest.useFakeTimers();
+    const upload = await resumableUploadService.create({
+      id: 'upload-1',
+      fileUri: 'file:///video.mp4',
+      bucket: 'media',
+      objectName: 'group-1/video.mp4',
+      contentType: 'video/mp4',
+      size: 10,
+    });
+    fetchMock
+      .mockResolvedValueOnce(respond(201, { Location: UPLOAD_URL }))
+      .mockResolvedValueOnce(respond(500))
+      .mockResolvedValueOnce(respond(200, { 'Upload-Offset': '4' }))
+      .mockResolvedValueOnce(respond(204, { 'Upload-Offset': '10' }));
+
+    const started = resumableUploadService.start(upload);
+    await jest.advanceTimersByTimeAsync(1000);
+
+    await expect(started).resolves.toBe(true);
+    expect(offsetsSent()).toEqual(['0', '4']);
+    expect(readMock.mock.calls[1][1]).toMatchObject({ position: 4, length: 6 });
+    expect((await resumableUploadService.getPending(upload.id))?.uploadUrl).toBe(UPLOAD_URL);
+  });
+
+  it('gives up once a chunk keeps failing', async () => {
+    jest.useFakeTimers();
+    const upload = makeUpload({ uploadUrl: UPLOAD_URL });
+    fetchMock.mockImplementation(async (_url, init) =>
+      init.method === 'HEAD' ? respond(200, { 'Upload-Offset': '0' }) : respond(500)
+    );
+
+    const started = resumableUploadService.start(upload);
+    const failed = expect(started).rejects.toThrow('Chunk rejected (500)');
+    await jest.advanceTimersByTimeAsync(1000 + 2000);
+
+    await failed;
+    expect(requests('PATCH')).toHaveLength(3);
+  });
+});
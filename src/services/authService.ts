@@ -14,6 +14,7 @@ export interface UserProfile {
   email?: string;
   display_name: string;
   avatar_url?: string;
+  hide_last_seen?: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -1,119 +1,307 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
 import * as FileSystem from "expo-file-system";
-import { Attachment } from "../types";
 
-const MEDIA_DIRECTORY = FileSystem.documentDirectory + "slowmail_media/";
+// On-device cache for downloaded media and thumbnails.
+//
+// Files are content-addressed: each is stored once under the MD5 of its
+// bytes, however many storage paths point at it. The index records which
+// path maps to which file, which groups use each file and when it was last
+// shown. Once the cache outgrows its size limit the least recently used
+// files go first, and a group's files are dropped when it is archived or
+// left.
+
+const CACHE_DIRECTORY = FileSystem.documentDirectory + "media_cache/";
+const DOWNLOAD_DIRECTORY = CACHE_DIRECTORY + "downloads/";
+// Where media lived before the cache; removed on first start
+const LEGACY_MEDIA_DIRECTORY = FileSystem.documentDirectory + "slowmail_media/";
+const INDEX_KEY = "@groupby_media_cache";
+// Access times change whenever media is shown, so batch index writes
+const INDEX_SAVE_DELAY_MS = 2000;
+
+export const DEFAULT_MEDIA_CACHE_LIMIT_MB = 500;
+
+export const MEDIA_CACHE_LIMIT_OPTIONS = [
+  { megabytes: 100, label: "100MB" },
+  { megabytes: 250, label: "250MB" },
+  { megabytes: 500, label: "500MB" },
+  { megabytes: 1024, label: "1GB" },
+];
+
+interface CachedFile {
+  fileName: string; // Content hash plus the original extension
+  size: number;
+  lastAccessedAt: number;
+  groupIds: string[];
+}
+
+interface CacheIndex {
+  files: Record<string, CachedFile>; // By content hash
+  sources: Record<string, string>; // "bucket/path" -> content hash
+}
+
+let index: CacheIndex = { files: {}, sources: {} };
+let loading: Promise<void> | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+let sizeLimit = DEFAULT_MEDIA_CACHE_LIMIT_MB * 1024 * 1024;
+const downloads = new Map<string, Promise<string | null>>();
+const listeners = new Set<() => void>();
+
+const sourceKey = (bucket: string, path: string) => `${bucket}/${path}`;
+
+const getExtension = (path: string) => {
+  const match = path.match(/\.[A-Za-z0-9]+$/);
+  return match ? match[0].toLowerCase() : "";
+};
+
+const notifyListeners = () => listeners.forEach((listener) => listener());
+
+const scheduleSave = () => {
+  if (saveTimer) return;
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    AsyncStorage.setItem(INDEX_KEY, JSON.stringify(index)).catch((error) =>
+      console.error("Failed to save media cache index:", error)
+    );
+  }, INDEX_SAVE_DELAY_MS);
+};
 
 export const MediaStorageService = {
-  async ensureDirectoryExists(): Promise<void> {
-    const dirInfo = await FileSystem.getInfoAsync(MEDIA_DIRECTORY);
-    if (!dirInfo.exists) {
-      await FileSystem.makeDirectoryAsync(MEDIA_DIRECTORY, {
-        intermediates: true,
-      });
-    }
-  },
+  /**
+   * Load the cache index, dropping entries whose files have gone missing
+   */
+  init(): Promise<void> {
+    if (!loading) {
+      loading = (async () => {
+        try {
+          const legacyInfo = await FileSystem.getInfoAsync(LEGACY_MEDIA_DIRECTORY);
+          if (legacyInfo.exists) {
+            await FileSystem.deleteAsync(LEGACY_MEDIA_DIRECTORY, { idempotent: true });
+          }
 
-  async saveMediaFile(uri: string, fileName: string): Promise<string> {
-    try {
-      await this.ensureDirectoryExists();
-      const newUri = MEDIA_DIRECTORY + fileName;
+          await FileSystem.makeDirectoryAsync(DOWNLOAD_DIRECTORY, { intermediates: true });
+          // Leftovers from downloads interrupted by the app closing
+          for (const file of await FileSystem.readDirectoryAsync(DOWNLOAD_DIRECTORY)) {
+            await FileSystem.deleteAsync(DOWNLOAD_DIRECTORY + file, { idempotent: true });
+          }
 
-      // Copy the file to our app's document directory
-      await FileSystem.copyAsync({
-        from: uri,
-        to: newUri,
-      });
+          const jsonValue = await AsyncStorage.getItem(INDEX_KEY);
+          const saved: CacheIndex = jsonValue ? JSON.parse(jsonValue) : { files: {}, sources: {} };
+          const present = new Set(await FileSystem.readDirectoryAsync(CACHE_DIRECTORY));
 
-      return newUri;
-    } catch (error) {
-      console.error("Failed to save media file:", error);
-      // Return original URI if save fails
-      return uri;
-    }
-  },
+          for (const [hash, file] of Object.entries(saved.files)) {
+            if (!present.has(file.fileName)) {
+              delete saved.files[hash];
+            }
+          }
+          for (const [key, hash] of Object.entries(saved.sources)) {
+            if (!saved.files[hash]) {
+              delete saved.sources[key];
+            }
+          }
 
-  async deleteMediaFile(uri: string): Promise<void> {
-    try {
-      // Only delete if it's in our media directory
-      if (uri.startsWith(MEDIA_DIRECTORY)) {
-        const fileInfo = await FileSystem.getInfoAsync(uri);
-        if (fileInfo.exists) {
-          await FileSystem.deleteAsync(uri);
+          index = saved;
+          notifyListeners();
+        } catch (error) {
+          console.error("Failed to load media cache:", error);
         }
-      }
-    } catch (error) {
-      console.error("Failed to delete media file:", error);
+      })();
     }
+    return loading;
+  },
+
+  /**
+   * Local copy of a storage file, if cached
+   */
+  getCachedUri(bucket: string, path: string): string | undefined {
+    const hash = index.sources[sourceKey(bucket, path)];
+    const file = hash ? index.files[hash] : undefined;
+    return file ? CACHE_DIRECTORY + file.fileName : undefined;
+  },
+
+  /**
+   * Count a cached file as just shown, so eviction takes it last
+   */
+  recordAccess(bucket: string, path: string): void {
+    const hash = index.sources[sourceKey(bucket, path)];
+    const file = hash ? index.files[hash] : undefined;
+    if (!file) return;
+
+    file.lastAccessedAt = Date.now();
+    scheduleSave();
   },
 
-  async saveAttachments(attachments: Attachment[]): Promise<Attachment[]> {
-    const savedAttachments: Attachment[] = [];
+  /**
+   * Download a storage file into the cache on behalf of a group
+   *
+   * Concurrent calls for the same file share one download. Resolves to the
+   * local uri, or null if the download failed or the file alone exceeds the
+   * cache size limit.
+   */
+  cacheRemoteFile(
+    bucket: string,
+    path: string,
+    url: string,
+    groupId: string
+  ): Promise<string | null> {
+    const key = sourceKey(bucket, path);
+    const running = downloads.get(key);
+    if (running) return running;
+
+    const download = (async () => {
+      await this.init();
+      const tempUri = `${DOWNLOAD_DIRECTORY}${Date.now()}-${Math.random().toString(36).slice(2)}`;
 
-    for (const attachment of attachments) {
       try {
-        const fileName = `${attachment.id}_${attachment.fileName || "media"}`;
-        const savedUri = await this.saveMediaFile(attachment.uri, fileName);
+        const result = await FileSystem.downloadAsync(url, tempUri);
+        if (result.status !== 200) {
+          throw new Error(`Download failed with status ${result.status}`);
+        }
 
-        savedAttachments.push({
-          ...attachment,
-          uri: savedUri,
-        });
+        const info = await FileSystem.getInfoAsync(tempUri, { md5: true });
+        if (!info.exists || !info.md5) {
+          throw new Error("Downloaded file is missing");
+        }
+
+        const hash = info.md5;
+        const existing = index.files[hash];
+        if (existing) {
+          // Same bytes under another path
+          await FileSystem.deleteAsync(tempUri, { idempotent: true });
+        } else if (info.size > sizeLimit) {
+          // Keeping it would evict every other file, then the file itself
+          await FileSystem.deleteAsync(tempUri, { idempotent: true });
+          return null;
+        } else {
+          const fileName = hash + getExtension(path);
+          await FileSystem.moveAsync({ from: tempUri, to: CACHE_DIRECTORY + fileName });
+          index.files[hash] = { fileName, size: info.size, lastAccessedAt: 0, groupIds: [] };
+        }
+
+        const file = index.files[hash];
+        file.lastAccessedAt = Date.now();
+        if (!file.groupIds.includes(groupId)) {
+          file.groupIds.push(groupId);
+        }
+        index.sources[key] = hash;
+
+        await this.evict();
+        scheduleSave();
+        notifyListeners();
+        return index.files[hash] ? CACHE_DIRECTORY + file.fileName : null;
       } catch (error) {
-        console.error("Failed to save attachment:", error);
-        // Keep original attachment if save fails
-        savedAttachments.push(attachment);
+        console.error("Failed to cache media file:", error);
+        await FileSystem.deleteAsync(tempUri, { idempotent: true }).catch(() => {});
+        return null;
+      } finally {
+        downloads.delete(key);
       }
-    }
+    })();
 
-    return savedAttachments;
+    downloads.set(key, download);
+    return download;
   },
 
-  async deleteAttachments(attachments: Attachment[]): Promise<void> {
-    for (const attachment of attachments) {
-      await this.deleteMediaFile(attachment.uri);
+  /**
+   * Drop the given groups' claims on cached files, deleting every file no
+   * other group still uses
+   */
+  async purgeGroups(groupIds: string[]): Promise<void> {
+    if (groupIds.length === 0) return;
+    await this.init();
+
+    const purged = new Set(groupIds);
+    const unused: string[] = [];
+    for (const [hash, file] of Object.entries(index.files)) {
+      file.groupIds = file.groupIds.filter((id) => !purged.has(id));
+      if (file.groupIds.length === 0) {
+        unused.push(hash);
+      }
     }
+
+    await this.deleteFiles(unused);
+    scheduleSave();
+  },
+
+  async setSizeLimit(bytes: number): Promise<void> {
+    sizeLimit = bytes;
+    await this.init();
+    await this.evict();
   },
 
-  async getFileSize(uri: string): Promise<number | undefined> {
+  /**
+   * Bytes currently used by cached files
+   */
+  async getUsage(): Promise<number> {
+    await this.init();
+    return Object.values(index.files).reduce((total, file) => total + file.size, 0);
+  },
+
+  async clear(): Promise<void> {
+    await this.init();
     try {
-      const fileInfo = await FileSystem.getInfoAsync(uri);
-      if (fileInfo.exists && "size" in fileInfo) {
-        return fileInfo.size;
-      }
+      await FileSystem.deleteAsync(CACHE_DIRECTORY, { idempotent: true });
+      await FileSystem.makeDirectoryAsync(DOWNLOAD_DIRECTORY, { intermediates: true });
     } catch (error) {
-      console.error("Failed to get file size:", error);
+      console.error("Failed to clear media cache:", error);
     }
-    return undefined;
+    index = { files: {}, sources: {} };
+    scheduleSave();
+    notifyListeners();
   },
 
-  async createThumbnail(videoUri: string): Promise<string | undefined> {
-    // For now, we'll return undefined.
-    // In a production app, you might want to use a library like expo-av
-    // to generate video thumbnails
-    return undefined;
+  /**
+   * Call onChange whenever files are added to or removed from the cache
+   */
+  subscribe(onChange: () => void): () => void {
+    listeners.add(onChange);
+    return () => {
+      listeners.delete(onChange);
+    };
   },
 
-  async cleanupOldMedia(): Promise<void> {
-    try {
-      await this.ensureDirectoryExists();
-      const files = await FileSystem.readDirectoryAsync(MEDIA_DIRECTORY);
-      const now = Date.now();
-      const thirtyDaysAgo = now - 30 * 24 * 60 * 60 * 1000;
-
-      for (const file of files) {
-        const fileUri = MEDIA_DIRECTORY + file;
-        const fileInfo = await FileSystem.getInfoAsync(fileUri);
-
-        if (fileInfo.exists && "modificationTime" in fileInfo) {
-          const modTime = fileInfo.modificationTime * 1000;
-          if (modTime < thirtyDaysAgo) {
-            await FileSystem.deleteAsync(fileUri);
-          }
-        }
+  /**
+   * Evict least recently used files until the cache fits its size limit
+   */
+  async evict(): Promise<void> {
+    const files = Object.entries(index.files).sort(
+      ([, a], [, b]) => a.lastAccessedAt - b.lastAccessedAt
+    );
+    let total = files.reduce((sum, [, file]) => sum + file.size, 0);
+    const evicted: string[] = [];
+
+    for (const [hash, file] of files) {
+      if (total <= sizeLimit) break;
+      total -= file.size;
+      evicted.push(hash);
+    }
+
+    await this.deleteFiles(evicted);
+  },
+
+  async deleteFiles(hashes: string[]): Promise<void> {
+    if (hashes.length === 0) return;
+
+    for (const hash of hashes) {
+      const file = index.files[hash];
+      if (!file) continue;
+
+      delete index.files[hash];
+      try {
+        await FileSystem.deleteAsync(CACHE_DIRECTORY + file.fileName, { idempotent: true });
+      } catch (error) {
+        console.error("Failed to delete cached media:", error);
       }
-    } catch (error) {
-      console.error("Failed to cleanup old media:", error);
     }
+
+    const deleted = new Set(hashes);
+    for (const [key, hash] of Object.entries(index.sources)) {
+      if (deleted.has(hash)) {
+        delete index.sources[key];
+      }
+    }
+
+    scheduleSave();
+    notifyListeners();
   },
 
   formatFileSize(bytes?: number): string {
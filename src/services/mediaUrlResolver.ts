@@ -0,0 +1,177 @@
+import { supabase } from '../utils/supabase';
+import { Attachment } from '../types';
+import { MEDIA_BUCKET, THUMBNAIL_BUCKET } from './supabaseMediaStorage';
+
+// Turns the storage paths kept in Attachment.uri / thumbnailUri into signed
+// URLs for the private media buckets.
+//
+// Requests made while one render pass is in progress are queued and signed
+// together with a single createSignedUrls call per bucket, so a page of
+// messages costs one round trip rather than one per attachment. URLs are
+// cached and re-signed shortly before they expire.
+
+const URL_LIFETIME_SECONDS = 60 * 60;
+// Re-sign this long before expiry so nothing is loaded from a dead URL
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+// Don't hammer the server for paths that just failed to sign
+const RETRY_AFTER_MS = 30 * 1000;
+
+interface SignedUrl {
+  url: string;
+  expiresAt: number;
+}
+
+/**
+ * Local files (file://, content://, ph://...) and full URLs need no signing
+ */
+export const isStoragePath = (uri: string) => !/^[a-z][a-z0-9+.-]*:/i.test(uri);
+
+const cacheKey = (bucket: string, path: string) => `${bucket}/${path}`;
+
+class MediaUrlResolver {
+  private cache = new Map<string, SignedUrl>();
+  private failedAt = new Map<string, number>();
+  private queued = new Map<string, Set<string>>(); // bucket -> paths
+  private inFlight = new Set<string>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<() => void>();
+
+  /**
+   * A usable URL for a media or thumbnail uri, or undefined while it is
+   * being signed
+   */
+  getUrl(bucket: string, uri: string): string | undefined {
+    if (!isStoragePath(uri)) return uri;
+
+    const entry = this.cache.get(cacheKey(bucket, uri));
+    return entry && entry.expiresAt > Date.now() ? entry.url : undefined;
+  }
+
+  /**
+   * Queue signing for every attachment whose URL is missing or about to expire
+   */
+  requestAttachments(attachments: Attachment[]): void {
+    for (const attachment of attachments) {
+      this.request(MEDIA_BUCKET, attachment.uri);
+      if (attachment.thumbnailUri) {
+        this.request(THUMBNAIL_BUCKET, attachment.thumbnailUri);
+      }
+    }
+  }
+
+  /**
+   * When the earliest of these attachments' URLs should be re-signed
+   */
+  getNextRefreshTime(attachments: Attachment[]): number | undefined {
+    let next: number | undefined;
+    for (const attachment of attachments) {
+      const paths: [string, string | undefined][] = [
+        [MEDIA_BUCKET, attachment.uri],
+        [THUMBNAIL_BUCKET, attachment.thumbnailUri],
+      ];
+      for (const [bucket, path] of paths) {
+        const entry = path ? this.cache.get(cacheKey(bucket, path)) : undefined;
+        if (entry && (next === undefined || entry.expiresAt - REFRESH_MARGIN_MS < next)) {
+          next = entry.expiresAt - REFRESH_MARGIN_MS;
+        }
+      }
+    }
+    return next;
+  }
+
+  /**
+   * Call onChange whenever new URLs have been signed
+   */
+  subscribe(onChange: () => void): () => void {
+    this.listeners.add(onChange);
+    return () => {
+      this.listeners.delete(onChange);
+    };
+  }
+
+  /**
+   * Forget every URL, e.g. after signing out
+   */
+  clear(): void {
+    this.cache.clear();
+    this.failedAt.clear();
+  }
+
+  private request(bucket: string, path: string): void {
+    if (!isStoragePath(path)) return;
+
+    const key = cacheKey(bucket, path);
+    const entry = this.cache.get(key);
+    const failedAt = this.failedAt.get(key);
+    if (
+      this.inFlight.has(key) ||
+      (entry && entry.expiresAt - REFRESH_MARGIN_MS > Date.now()) ||
+      (failedAt && Date.now() - failedAt < RETRY_AFTER_MS)
+    ) {
+      return;
+    }
+
+    if (!this.queued.has(bucket)) {
+      this.queued.set(bucket, new Set());
+    }
+    this.queued.get(bucket)!.add(path);
+    this.inFlight.add(key);
+
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), 0);
+    }
+  }
+
+  private flush(): void {
+    this.flushTimer = null;
+    const batches = Array.from(this.queued.entries());
+    this.queued.clear();
+
+    for (const [bucket, paths] of batches) {
+      this.signBatch(bucket, Array.from(paths));
+    }
+  }
+
+  private async signBatch(bucket: string, paths: string[]): Promise<void> {
+    const requestedAt = Date.now();
+    let signed = 0;
+
+    try {
+      const { data, error } = await supabase.storage
+        .from(bucket)
+        .createSignedUrls(paths, URL_LIFETIME_SECONDS);
+
+      if (error) {
+        throw error;
+      }
+
+      for (const item of data || []) {
+        if (!item.path) continue;
+
+        const key = cacheKey(bucket, item.path);
+        if (item.error || !item.signedUrl) {
+          this.failedAt.set(key, Date.now());
+          continue;
+        }
+
+        this.cache.set(key, {
+          url: item.signedUrl,
+          expiresAt: requestedAt + URL_LIFETIME_SECONDS * 1000,
+        });
+        this.failedAt.delete(key);
+        signed++;
+      }
+    } catch (error) {
+      console.error('Error creating signed URLs:', error);
+      paths.forEach(path => this.failedAt.set(cacheKey(bucket, path), Date.now()));
+    } finally {
+      paths.forEach(path => this.inFlight.delete(cacheKey(bucket, path)));
+    }
+
+    if (signed > 0) {
+      this.listeners.forEach(listener => listener());
+    }
+  }
+}
+
+export const mediaUrlResolver = new MediaUrlResolver();
@@ -0,0 +1,219 @@
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import { Group } from '../types';
+
+// Offsets before expires_at, in minutes, used when the user has not picked any
+export const DEFAULT_EXPIRY_WARNING_MINUTES = [60, 10];
+
+export const EXPIRY_WARNING_OPTIONS = [
+  { minutes: 1440, label: '1日前' },
+  { minutes: 60, label: '1時間前' },
+  { minutes: 10, label: '10分前' },
+];
+
+const EXPIRY_WARNING_CHANNEL = 'expiry-warnings';
+const MESSAGE_CHANNEL = 'messages'; // Must match channelId in fan_out_message_push()
+const EXPIRY_WARNING_TYPE = 'expiry_warning';
+
+export interface NotificationData {
+  type: string;
+  groupId: string;
+  expiresAt?: string;
+}
+
+const formatOffset = (minutes: number) =>
+  minutes >= 1440 && minutes % 1440 === 0
+    ? `${minutes / 1440}日`
+    : minutes >= 60 && minutes % 60 === 0
+    ? `${minutes / 60}時間`
+    : `${minutes}分`;
+
+class NotificationService {
+  private configured = false;
+  private pushToken: string | null = null;
+
+  /**
+   * Show notifications while the app is open and create the Android channels
+   */
+  async configure(): Promise<void> {
+    if (this.configured) return;
+    this.configured = true;
+
+    Notifications.setNotificationHandler({
+      handleNotification: async () => ({
+        shouldShowBanner: true,
+        shouldShowList: true,
+        shouldPlaySound: true,
+        shouldSetBadge: false,
+      }),
+    });
+
+    if (Platform.OS === 'android') {
+      try {
+        await Notifications.setNotificationChannelAsync(EXPIRY_WARNING_CHANNEL, {
+          name: 'グループの終了通知',
+          importance: Notifications.AndroidImportance.HIGH,
+        });
+        await Notifications.setNotificationChannelAsync(MESSAGE_CHANNEL, {
+          name: '新しいメッセージ',
+          importance: Notifications.AndroidImportance.HIGH,
+        });
+      } catch (error) {
+        console.error('Error creating notification channel:', error);
+      }
+    }
+  }
+
+  /**
+   * Ask for notification permission if it has not been decided yet
+   */
+  async requestPermissions(): Promise<boolean> {
+    try {
+      const current = await Notifications.getPermissionsAsync();
+      if (current.granted) return true;
+      if (!current.canAskAgain) return false;
+
+      const requested = await Notifications.requestPermissionsAsync();
+      return requested.granted;
+    } catch (error) {
+      console.error('Error requesting notification permission:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get this device's Expo push token, asking for permission if needed
+   */
+  async getPushToken(): Promise<string | null> {
+    if (this.pushToken) return this.pushToken;
+    if (!(await this.requestPermissions())) return null;
+
+    try {
+      const { data } = await Notifications.getExpoPushTokenAsync({
+        projectId: process.env.EXPO_PUBLIC_EAS_PROJECT_ID,
+      });
+      this.pushToken = data;
+      return data;
+    } catch (error) {
+      console.error('Error getting push token:', error);
+      return null;
+    }
+  }
+
+  /**
+   * The push token fetched earlier in this session, if any
+   */
+  getCachedPushToken(): string | null {
+    return this.pushToken;
+  }
+
+  /**
+   * Make the scheduled expiry warnings match the given groups
+   *
+   * Warnings are keyed by group, offset and expires_at, so extended groups
+   * get fresh warnings and groups the user left (or that were archived)
+   * lose theirs. Pass enabled=false to cancel everything.
+   */
+  async syncExpiryWarnings(groups: Group[], offsetsMinutes: number[], enabled: boolean): Promise<void> {
+    try {
+      const desired = new Map<string, Notifications.NotificationRequestInput>();
+
+      if (enabled) {
+        const now = Date.now();
+        for (const group of groups) {
+          const expiresAt = group.settings.expirationTime;
+          if (group.status === 'archived' || !group.settings.warnBeforeExpiry || !expiresAt) {
+            continue;
+          }
+
+          for (const minutes of offsetsMinutes) {
+            const fireAt = expiresAt.getTime() - minutes * 60 * 1000;
+            if (fireAt <= now) continue;
+
+            const data: NotificationData = {
+              type: EXPIRY_WARNING_TYPE,
+              groupId: group.id,
+              expiresAt: expiresAt.toISOString(),
+            };
+            desired.set(`${EXPIRY_WARNING_TYPE}_${group.id}_${minutes}_${expiresAt.getTime()}`, {
+              content: {
+                title: group.name,
+                body: `このグループはあと${formatOffset(minutes)}で終了します`,
+                data: { ...data },
+              },
+              trigger: {
+                type: Notifications.SchedulableTriggerInputTypes.DATE,
+                date: fireAt,
+                channelId: EXPIRY_WARNING_CHANNEL,
+              },
+            });
+          }
+        }
+      }
+
+      const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+      const scheduledIds = new Set<string>();
+
+      for (const request of scheduled) {
+        if (request.content.data?.type !== EXPIRY_WARNING_TYPE) continue;
+
+        if (desired.has(request.identifier)) {
+          scheduledIds.add(request.identifier);
+        } else {
+          await Notifications.cancelScheduledNotificationAsync(request.identifier);
+        }
+      }
+
+      for (const [identifier, request] of desired) {
+        if (scheduledIds.has(identifier)) continue;
+        await Notifications.scheduleNotificationAsync({ ...request, identifier });
+      }
+    } catch (error) {
+      console.error('Error scheduling expiry warnings:', error);
+    }
+  }
+
+  /**
+   * Cancel every expiry warning for a group, e.g. after leaving it
+   */
+  async cancelGroupWarnings(groupId: string): Promise<void> {
+    try {
+      const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+      for (const request of scheduled) {
+        if (
+          request.content.data?.type === EXPIRY_WARNING_TYPE &&
+          request.content.data?.groupId === groupId
+        ) {
+          await Notifications.cancelScheduledNotificationAsync(request.identifier);
+        }
+      }
+    } catch (error) {
+      console.error('Error cancelling expiry warnings:', error);
+    }
+  }
+
+  /**
+   * Call onOpen with the group of every notification the user taps,
+   * including the one that launched the app
+   */
+  subscribeToNotificationOpens(onOpen: (groupId: string) => void): () => void {
+    const handleResponse = (response: Notifications.NotificationResponse | null) => {
+      const data = response?.notification.request.content.data as Partial<NotificationData> | undefined;
+      if (typeof data?.groupId === 'string') {
+        onOpen(data.groupId);
+      }
+    };
+
+    Notifications.getLastNotificationResponseAsync()
+      .then(response => {
+        handleResponse(response);
+        Notifications.clearLastNotificationResponseAsync().catch(() => {});
+      })
+      .catch(error => console.error('Error reading launch notification:', error));
+
+    const subscription = Notifications.addNotificationResponseReceivedListener(handleResponse);
+    return () => subscription.remove();
+  }
+}
+
+export const notificationService = new NotificationService();
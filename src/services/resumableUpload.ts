@@ -0,0 +1,266 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { decode, encode } from 'base64-arraybuffer';
+import { supabase, STORAGE_UPLOAD_URL } from '../utils/supabase';
+
+// Resumable uploads over the TUS protocol, as spoken by Supabase Storage.
+//
+// Files are read from disk one chunk at a time, so a long video never sits
+// in memory whole. Every upload stays recorded until it is finished or
+// cancelled, and start() asks the server how far it got before sending
+// anything, so an interrupted upload continues where it stopped - after a
+// dropped connection or after the app was restarted.
+//
+// supabase/mock_storage_server.js implements the same protocol locally.
+
+const PENDING_UPLOADS_KEY = '@groupby_pending_uploads';
+const TUS_VERSION = '1.0.0';
+
+// Supabase Storage requires every chunk but the last to be exactly 6MB
+export const UPLOAD_CHUNK_SIZE = 6 * 1024 * 1024;
+
+// Attempts per chunk before the upload is reported as failed
+const MAX_CHUNK_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+
+export interface ResumableUpload {
+  id: string;
+  fileUri: string;
+  bucket: string;
+  objectName: string;
+  contentType: string;
+  size: number;
+  uploadUrl?: string; // Set once the server has created the upload
+  context?: unknown; // Whatever the caller needs to finish up after a restart
+  createdAt: string;
+}
+
+class ResumableUploadService {
+  private controllers = new Map<string, AbortController>();
+  private cancelled = new Set<string>();
+  // AsyncStorage writes are read-modify-write, so run them one at a time
+  private writes: Promise<void> = Promise.resolve();
+
+  /**
+   * Uploads that were started but have not finished, oldest first
+   */
+  async listPending(): Promise<ResumableUpload[]> {
+    const uploads = await this.loadAll();
+    return Object.values(uploads).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async getPending(id: string): Promise<ResumableUpload | null> {
+    const uploads = await this.loadAll();
+    return uploads[id] || null;
+  }
+
+  /**
+   * Record a new upload; nothing is sent until start()
+   */
+  async create(upload: Omit<ResumableUpload, 'createdAt' | 'uploadUrl'>): Promise<ResumableUpload> {
+    const created: ResumableUpload = { ...upload, createdAt: new Date().toISOString() };
+    await this.update(uploads => {
+      uploads[created.id] = created;
+    });
+    return created;
+  }
+
+  /**
+   * Send the file, continuing from wherever the server left off
+   *
+   * Resolves to true once the server has every byte and to false when the
+   * upload was cancelled. Throws when a chunk keeps failing; the upload
+   * stays recorded so a later start() resumes it.
+   */
+  async start(upload: ResumableUpload, onProgress?: (progress: number) => void): Promise<boolean> {
+    this.cancelled.delete(upload.id);
+
+    try {
+      let offset = upload.uploadUrl ? await this.getOffset(upload.uploadUrl) : null;
+      if (offset === null) {
+        // New, or expired on the server: start over
+        upload.uploadUrl = await this.createOnServer(upload);
+        offset = 0;
+        if (this.cancelled.has(upload.id)) return false;
+        await this.update(uploads => {
+          uploads[upload.id] = upload;
+        });
+      }
+      onProgress?.(upload.size > 0 ? offset / upload.size : 0);
+
+      let attempts = 0;
+      while (offset < upload.size) {
+        if (this.cancelled.has(upload.id)) return false;
+
+        try {
+          offset = await this.sendChunk(upload, offset);
+          attempts = 0;
+          onProgress?.(offset / upload.size);
+        } catch (error) {
+          if (this.cancelled.has(upload.id)) return false;
+
+          attempts++;
+          if (attempts >= MAX_CHUNK_ATTEMPTS) {
+            throw error;
+          }
+          await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * 2 ** (attempts - 1)));
+
+          // The failed request may have been partly written
+          const serverOffset = await this.getOffset(upload.uploadUrl!);
+          if (serverOffset === null) {
+            throw new Error('Upload expired on the server');
+          }
+          offset = serverOffset;
+        }
+      }
+
+      return !this.cancelled.has(upload.id);
+    } finally {
+      this.controllers.delete(upload.id);
+    }
+  }
+
+  /**
+   * Stop an upload and forget it, dropping what the server has so far
+   */
+  async cancel(id: string): Promise<void> {
+    this.cancelled.add(id);
+    this.controllers.get(id)?.abort();
+
+    const upload = await this.getPending(id);
+    await this.remove(id);
+
+    if (upload?.uploadUrl) {
+      try {
+        await fetch(upload.uploadUrl, { method: 'DELETE', headers: await this.getHeaders() });
+      } catch (error) {
+        console.error('Error terminating upload:', error);
+      }
+    }
+  }
+
+  isCancelled(id: string): boolean {
+    return this.cancelled.has(id);
+  }
+
+  /**
+   * Forget a finished or abandoned upload
+   */
+  async remove(id: string): Promise<void> {
+    await this.update(uploads => {
+      delete uploads[id];
+    });
+  }
+
+  private async createOnServer(upload: ResumableUpload): Promise<string> {
+    const response = await fetch(STORAGE_UPLOAD_URL, {
+      method: 'POST',
+      headers: {
+        ...(await this.getHeaders()),
+        'Upload-Length': String(upload.size),
+        'Upload-Metadata': this.encodeMetadata({
+          bucketName: upload.bucket,
+          objectName: upload.objectName,
+          contentType: upload.contentType,
+          cacheControl: '3600',
+        }),
+        'x-upsert': 'false',
+      },
+    });
+
+    const location = response.headers.get('Location');
+    if (response.status !== 201 || !location) {
+      throw new Error(`Could not create upload (${response.status}): ${await response.text()}`);
+    }
+    return location;
+  }
+
+  /**
+   * How many bytes the server has, or null if it no longer knows the upload
+   */
+  private async getOffset(uploadUrl: string): Promise<number | null> {
+    const response = await fetch(uploadUrl, {
+      method: 'HEAD',
+      headers: await this.getHeaders(),
+    });
+
+    if (response.status === 404 || response.status === 410) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Could not read upload offset (${response.status})`);
+    }
+
+    const offset = response.headers.get('Upload-Offset');
+    return offset !== null ? Number(offset) : null;
+  }
+
+  private async sendChunk(upload: ResumableUpload, offset: number): Promise<number> {
+    const length = Math.min(UPLOAD_CHUNK_SIZE, upload.size - offset);
+    const chunk = await FileSystem.readAsStringAsync(upload.fileUri, {
+      encoding: FileSystem.EncodingType.Base64,
+      position: offset,
+      length,
+    });
+
+    const controller = new AbortController();
+    this.controllers.set(upload.id, controller);
+
+    const response = await fetch(upload.uploadUrl!, {
+      method: 'PATCH',
+      headers: {
+        ...(await this.getHeaders()),
+        'Upload-Offset': String(offset),
+        'Content-Type': 'application/offset+octet-stream',
+      },
+      body: decode(chunk),
+      signal: controller.signal,
+    });
+
+    if (response.status !== 204) {
+      throw new Error(`Chunk rejected (${response.status}): ${await response.text()}`);
+    }
+
+    const nextOffset = response.headers.get('Upload-Offset');
+    return nextOffset !== null ? Number(nextOffset) : offset + length;
+  }
+
+  private async getHeaders(): Promise<Record<string, string>> {
+    const { data: { session } } = await supabase.auth.getSession();
+    return {
+      'Tus-Resumable': TUS_VERSION,
+      ...(session ? { Authorization: `Bearer ${session.access_token}` } : {}),
+    };
+  }
+
+  private encodeMetadata(metadata: Record<string, string>): string {
+    return Object.entries(metadata)
+      .map(([key, value]) => `${key} ${encode(new TextEncoder().encode(value).buffer as ArrayBuffer)}`)
+      .join(',');
+  }
+
+  private async loadAll(): Promise<Record<string, ResumableUpload>> {
+    try {
+      const jsonValue = await AsyncStorage.getItem(PENDING_UPLOADS_KEY);
+      return jsonValue ? JSON.parse(jsonValue) : {};
+    } catch (error) {
+      console.error('Error loading pending uploads:', error);
+      return {};
+    }
+  }
+
+  private update(change: (uploads: Record<string, ResumableUpload>) => void): Promise<void> {
+    this.writes = this.writes.then(async () => {
+      try {
+        const uploads = await this.loadAll();
+        change(uploads);
+        await AsyncStorage.setItem(PENDING_UPLOADS_KEY, JSON.stringify(uploads));
+      } catch (error) {
+        console.error('Error saving pending uploads:', error);
+      }
+    });
+    return this.writes;
+  }
+}
+
+export const resumableUploadService = new ResumableUploadService();
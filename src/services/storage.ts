@@ -9,6 +9,11 @@ import {
   DisbandReason,
   UserProfile,
 } from "../types";
+import { DEFAULT_EXPIRY_WARNING_MINUTES } from "./notificationService";
+import {
+  DEFAULT_MEDIA_CACHE_LIMIT_MB,
+  MediaStorageService,
+} from "./mediaStorage";
 
 const MESSAGES_KEY = "@groupby_messages";
 const SETTINGS_KEY = "@groupby_settings";
@@ -65,6 +70,14 @@ export const StorageService = {
       const jsonValue = await AsyncStorage.getItem(SETTINGS_KEY);
       if (jsonValue != null) {
         const settings = JSON.parse(jsonValue);
+        // Saved before expiry warnings became configurable
+        if (!Array.isArray(settings.expiryWarningMinutes)) {
+          settings.expiryWarningMinutes = DEFAULT_EXPIRY_WARNING_MINUTES;
+        }
+        // Saved before the media cache had a size limit
+        if (typeof settings.mediaCacheLimitMB !== "number") {
+          settings.mediaCacheLimitMB = DEFAULT_MEDIA_CACHE_LIMIT_MB;
+        }
         if (settings.currentUser?.createdAt) {
           settings.currentUser.createdAt = new Date(
             settings.currentUser.createdAt
@@ -89,7 +102,9 @@ export const StorageService = {
       enableTypingIndicator: true,
       defaultGroupLifespan: "24_hours",
       showExpirationWarnings: true,
+      expiryWarningMinutes: DEFAULT_EXPIRY_WARNING_MINUTES,
       archiveRetentionDays: 30,
+      mediaCacheLimitMB: DEFAULT_MEDIA_CACHE_LIMIT_MB,
       autoJoinSuggestions: false,
       currentUser: defaultUser,
     };
@@ -125,6 +140,7 @@ export const StorageService = {
         ACTIVE_GROUPS_KEY,
         ARCHIVED_GROUPS_KEY,
       ]);
+      await MediaStorageService.clear();
     } catch (e) {
       console.error("Failed to clear storage:", e);
     }
@@ -236,8 +252,9 @@ export const StorageService = {
       const newlyArchived: Group[] = [];
 
       for (const group of active) {
+        const { expirationTime } = group.settings;
         const isExpired =
-          group.settings.expirationTime.getTime() <= now.getTime();
+          !!expirationTime && expirationTime.getTime() <= now.getTime();
         const isInactive =
           group.settings.inactivityThreshold &&
           now.getTime() - group.lastActivity.getTime() >
@@ -261,14 +278,15 @@ export const StorageService = {
           newlyArchived.push(archivedGroup);
         } else {
           // Update status if expiring soon (< 10% time remaining)
-          const totalTime =
-            group.settings.expirationTime.getTime() - group.createdAt.getTime();
-          const remainingTime =
-            group.settings.expirationTime.getTime() - now.getTime();
-          const percentRemaining = remainingTime / totalTime;
-
-          if (percentRemaining < 0.1 && group.status !== "expiring_soon") {
-            group.status = "expiring_soon";
+          if (expirationTime) {
+            const totalTime =
+              expirationTime.getTime() - group.createdAt.getTime();
+            const remainingTime = expirationTime.getTime() - now.getTime();
+            const percentRemaining = remainingTime / totalTime;
+
+            if (percentRemaining < 0.1 && group.status !== "expiring_soon") {
+              group.status = "expiring_soon";
+            }
           }
           stillActive.push(group);
         }
@@ -330,7 +348,7 @@ export const StorageService = {
       id: Date.now().toString(),
       name,
       description,
-      members: [{ id: currentUser.id, name: currentUser.name }],
+      members: [{ id: currentUser.id, name: currentUser.name, role: "admin" }],
       createdAt: new Date(),
       createdBy: currentUser.id,
       lastActivity: new Date(),
@@ -366,9 +384,9 @@ export const StorageService = {
     if (!group || group.status === "archived") return null;
 
     group.inviteCode = this.generateInviteCode();
-    group.inviteCodeExpiresAt = new Date(
-      group.settings.expirationTime.getTime()
-    );
+    group.inviteCodeExpiresAt = group.settings.expirationTime
+      ? new Date(group.settings.expirationTime.getTime())
+      : undefined;
 
     await this.saveGroup(group);
     return group.inviteCode;
@@ -1,15 +1,30 @@
 import { supabase } from '../utils/supabase';
 import { authService } from './authService';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as FileSystem from 'expo-file-system';
 import * as ImageManipulator from 'expo-image-manipulator';
+import * as VideoThumbnails from 'expo-video-thumbnails';
+import { Audio } from 'expo-av';
 import { decode } from 'base64-arraybuffer';
+import { resumableUploadService, ResumableUpload } from './resumableUpload';
+import { MediaStorageService } from './mediaStorage';
+import { supabaseService } from './supabaseService';
+
+// Stored in attachments.metadata
+export interface MediaMetadata {
+  width?: number;
+  height?: number;
+  duration?: number; // Seconds, for videos
+  originalUri?: string;
+}
 
 export interface MediaUploadResult {
+  attachmentId: string;
   filePath: string;
   thumbnailPath?: string;
   fileSize: number;
   fileType: string;
-  metadata?: any;
+  metadata?: MediaMetadata;
 }
 
 export interface MediaUploadOptions {
@@ -19,11 +34,39 @@ export interface MediaUploadOptions {
   quality?: number; // 0-1 for compression
   maxWidth?: number;
   maxHeight?: number;
+  duration?: number; // Video length in seconds, when the picker already knows it
+  uploadId?: string; // Pass the same id to cancelUpload(); reusing it resumes a failed upload
+  onProgress?: (progress: number) => void; // 0-1, for the main file
+}
+
+// Kept with each resumable upload so it can be finished after a restart
+interface MediaUploadContext {
+  messageId: string;
+  localUri: string;
+  type: 'image' | 'video';
+  metadata: MediaMetadata;
+  posterUri?: string; // Local poster frame for videos
 }
 
+// Where to take a video's poster frame, in milliseconds (capped at half its length)
+const POSTER_FRAME_MS = 1000;
+const VIDEO_THUMBNAIL_WIDTH = 320;
+
+// Messages held back until their uploads settle: message id -> upload ids
+const HELD_MESSAGES_KEY = '@groupby_held_messages';
+
+export const MEDIA_BUCKET = 'media';
+export const THUMBNAIL_BUCKET = 'thumbnails';
+
 class SupabaseMediaStorage {
-  private readonly BUCKET_NAME = 'media';
-  private readonly THUMBNAIL_BUCKET = 'thumbnails';
+  private readonly BUCKET_NAME = MEDIA_BUCKET;
+  private readonly THUMBNAIL_BUCKET = THUMBNAIL_BUCKET;
+  // One run per upload id, so a resume and a retry never finish it twice
+  private runningUploads = new Map<string, Promise<MediaUploadResult | null>>();
+  // Upload ids held since launch; their uploads settle them as they end
+  private heldThisSession = new Set<string>();
+  // AsyncStorage writes are read-modify-write, so run them one at a time
+  private holdWrites: Promise<void> = Promise.resolve();
 
   /**
    * Initialize storage buckets (call this during app setup)
@@ -56,93 +99,90 @@ class SupabaseMediaStorage {
 
   /**
    * Upload media file and create thumbnail
+   *
+   * The file is sent in resumable chunks streamed from disk. Returns null on
+   * failure or when the upload was cancelled with cancelUpload(); calling
+   * again with the same uploadId continues a failed upload.
    */
   async uploadMedia(options: MediaUploadOptions): Promise<MediaUploadResult | null> {
-    try {
-      const currentUser = await authService.getCurrentChatUser();
-      if (!currentUser) {
-        throw new Error('User must be authenticated to upload media');
-      }
-
-      // Read file as base64
-      const fileBase64 = await FileSystem.readAsStringAsync(options.localUri, {
-        encoding: FileSystem.EncodingType.Base64,
-      });
-
-      // Get file info
-      const fileInfo = await FileSystem.getInfoAsync(options.localUri);
-      if (!fileInfo.exists) {
-        throw new Error('File does not exist');
-      }
+    const uploadId = options.uploadId || `${Date.now()}-${Math.random().toString(36).slice(2)}`;
 
-      // Generate unique file path
-      const fileExtension = this.getFileExtension(options.localUri);
-      const fileName = `${currentUser.id}/${options.messageId}/${Date.now()}.${fileExtension}`;
-
-      // Compress and process image if needed
-      let processedBase64 = fileBase64;
-      let metadata: any = {};
-
-      if (options.type === 'image') {
-        const processed = await this.processImage(
-          options.localUri,
-          options.quality || 0.8,
-          options.maxWidth || 1920,
-          options.maxHeight || 1080
-        );
-        processedBase64 = processed.base64;
-        metadata = processed.metadata;
+    try {
+      const upload =
+        (await resumableUploadService.getPending(uploadId)) ||
+        (await this.prepareUpload(uploadId, options));
+      return await this.runUpload(upload, options.onProgress);
+    } catch (error) {
+      console.error('Error uploading media:', error);
+      return null;
+    } finally {
+      // Finished, cancelled or given up on; a failed upload stays pending for a retry
+      if (!(await resumableUploadService.getPending(uploadId))) {
+        await this.settleUpload(uploadId);
       }
+    }
+  }
 
-      // Upload main file
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from(this.BUCKET_NAME)
-        .upload(fileName, decode(processedBase64), {
-          contentType: this.getMimeType(fileExtension),
-          upsert: false,
-        });
+  /**
+   * Keep a message sent with uploading: true hidden until the given uploads
+   * have finished or been cancelled
+   *
+   * The message is then published, or deleted if cancelling left it empty.
+   * The hold is saved, so uploads resumed after a restart still release it.
+   */
+  async holdMessage(messageId: string, uploadIds: string[]): Promise<void> {
+    if (uploadIds.length === 0) {
+      await supabaseService.publishMessage(messageId);
+      return;
+    }
 
-      if (uploadError) {
-        throw uploadError;
-      }
+    uploadIds.forEach(id => this.heldThisSession.add(id));
+    await this.updateHolds(holds => {
+      holds[messageId] = uploadIds;
+    });
+  }
 
-      // Create thumbnail for images and videos
-      let thumbnailPath: string | undefined;
-      if (options.type === 'image') {
-        thumbnailPath = await this.createImageThumbnail(options.localUri, fileName);
-      } else if (options.type === 'video') {
-        thumbnailPath = await this.createVideoThumbnail(options.localUri, fileName);
-      }
+  /**
+   * Stop an upload started with the given uploadId
+   *
+   * uploadMedia() then resolves to null and leaves nothing behind.
+   */
+  async cancelUpload(uploadId: string): Promise<void> {
+    await resumableUploadService.cancel(uploadId);
+    await this.settleUpload(uploadId);
+  }
 
-      // Save attachment metadata to database
-      const { error: dbError } = await supabase
-        .from('attachments')
-        .insert({
-          message_id: options.messageId,
-          file_path: uploadData.path,
-          file_type: this.getMimeType(fileExtension),
-          file_size: fileInfo.size || 0,
-          thumbnail_path: thumbnailPath,
-          metadata,
-        });
+  /**
+   * Finish uploads that were cut short by the app closing
+   *
+   * Their attachments reach open chats through realtime like any other.
+   */
+  async resumePendingUploads(): Promise<void> {
+    try {
+      const currentUser = await authService.getCurrentChatUser();
+      if (!currentUser) return;
+
+      for (const upload of await resumableUploadService.listPending()) {
+        // Left behind by another account, or the picked file is gone
+        const fileInfo = await FileSystem.getInfoAsync(upload.fileUri);
+        if (!upload.objectName.startsWith(`${currentUser.id}/`) || !fileInfo.exists) {
+          await this.cancelUpload(upload.id);
+          continue;
+        }
 
-      if (dbError) {
-        console.error('Error saving attachment metadata:', dbError);
-        // Clean up uploaded file if database save fails
-        await this.deleteFile(uploadData.path);
-        throw dbError;
+        try {
+          await this.runUpload(upload);
+        } catch (error) {
+          console.error('Error resuming upload:', error);
+        }
+        if (!(await resumableUploadService.getPending(upload.id))) {
+          await this.settleUpload(upload.id);
+        }
       }
 
-      return {
-        filePath: uploadData.path,
-        thumbnailPath,
-        fileSize: fileInfo.size || 0,
-        fileType: this.getMimeType(fileExtension),
-        metadata,
-      };
+      await this.releaseStaleHolds();
     } catch (error) {
-      console.error('Error uploading media:', error);
-      return null;
+      console.error('Error resuming uploads:', error);
     }
   }
 
@@ -189,44 +229,20 @@ class SupabaseMediaStorage {
   }
 
   /**
-   * Download media file to local cache
+   * Download a media file into the on-device cache for a group
    */
-  async downloadMedia(filePath: string): Promise<string | null> {
-    try {
-      // Check if file is already cached
-      const cacheDir = `${FileSystem.cacheDirectory}media/`;
-      const localFileName = filePath.replace(/\//g, '_');
-      const localPath = `${cacheDir}${localFileName}`;
-
-      // Ensure cache directory exists
-      const dirInfo = await FileSystem.getInfoAsync(cacheDir);
-      if (!dirInfo.exists) {
-        await FileSystem.makeDirectoryAsync(cacheDir, { intermediates: true });
-      }
-
-      // Check if file already exists locally
-      const fileInfo = await FileSystem.getInfoAsync(localPath);
-      if (fileInfo.exists) {
-        return localPath;
-      }
-
-      // Get signed URL and download
-      const signedUrl = await this.getMediaUrl(filePath);
-      if (!signedUrl) {
-        return null;
-      }
-
-      const downloadResult = await FileSystem.downloadAsync(signedUrl, localPath);
-
-      if (downloadResult.status === 200) {
-        return downloadResult.uri;
-      }
+  async downloadMedia(filePath: string, groupId: string): Promise<string | null> {
+    const cachedUri = MediaStorageService.getCachedUri(this.BUCKET_NAME, filePath);
+    if (cachedUri) {
+      return cachedUri;
+    }
 
-      return null;
-    } catch (error) {
-      console.error('Error downloading media:', error);
+    const signedUrl = await this.getMediaUrl(filePath);
+    if (!signedUrl) {
       return null;
     }
+
+    return MediaStorageService.cacheRemoteFile(this.BUCKET_NAME, filePath, signedUrl, groupId);
   }
 
   /**
@@ -265,6 +281,8 @@ class SupabaseMediaStorage {
    * Clean up expired group media
    */
   async cleanupExpiredGroupMedia(groupId: string): Promise<void> {
+    await MediaStorageService.purgeGroups([groupId]);
+
     try {
       // First get all message IDs for the group
       const { data: messages, error: messagesError } = await supabase
@@ -340,7 +358,7 @@ class SupabaseMediaStorage {
     quality: number,
     maxWidth: number,
     maxHeight: number
-  ): Promise<{ base64: string; metadata: any }> {
+  ): Promise<{ uri: string; metadata: MediaMetadata }> {
     try {
       const manipResult = await ImageManipulator.manipulateAsync(
         localUri,
@@ -348,12 +366,11 @@ class SupabaseMediaStorage {
         {
           compress: quality,
           format: ImageManipulator.SaveFormat.JPEG,
-          base64: true,
         }
       );
 
       return {
-        base64: manipResult.base64!,
+        uri: manipResult.uri,
         metadata: {
           width: manipResult.width,
           height: manipResult.height,
@@ -363,11 +380,204 @@ class SupabaseMediaStorage {
     } catch (error) {
       console.error('Error processing image:', error);
       // Fallback to original
-      const base64 = await FileSystem.readAsStringAsync(localUri, {
-        encoding: FileSystem.EncodingType.Base64,
-      });
-      return { base64, metadata: { originalUri: localUri } };
+      return { uri: localUri, metadata: { originalUri: localUri } };
+    }
+  }
+
+  /**
+   * Compress the file if needed and record it as a resumable upload
+   */
+  private async prepareUpload(uploadId: string, options: MediaUploadOptions): Promise<ResumableUpload> {
+    const currentUser = await authService.getCurrentChatUser();
+    if (!currentUser) {
+      throw new Error('User must be authenticated to upload media');
+    }
+
+    // Compress and process image if needed
+    let uploadUri = options.localUri;
+    let fileExtension = this.getFileExtension(options.localUri);
+    let metadata: MediaMetadata = {};
+    let posterUri: string | undefined;
+
+    if (options.type === 'video') {
+      const video = await this.extractVideoMetadata(options.localUri, options.duration);
+      metadata = video.metadata;
+      posterUri = video.posterUri;
+    } else if (options.type === 'image') {
+      const processed = await this.processImage(
+        options.localUri,
+        options.quality || 0.8,
+        options.maxWidth || 1920,
+        options.maxHeight || 1080
+      );
+      uploadUri = processed.uri;
+      metadata = processed.metadata;
+      if (processed.uri !== options.localUri) {
+        fileExtension = 'jpg'; // processImage re-encodes as JPEG
+      }
+    }
+
+    // Get file info
+    const fileInfo = await FileSystem.getInfoAsync(uploadUri);
+    if (!fileInfo.exists) {
+      throw new Error('File does not exist');
+    }
+
+    const context: MediaUploadContext = {
+      messageId: options.messageId,
+      localUri: options.localUri,
+      type: options.type,
+      metadata,
+      posterUri,
+    };
+
+    return resumableUploadService.create({
+      id: uploadId,
+      fileUri: uploadUri,
+      bucket: this.BUCKET_NAME,
+      // Generate unique file path
+      objectName: `${currentUser.id}/${options.messageId}/${Date.now()}.${fileExtension}`,
+      contentType: this.getMimeType(fileExtension),
+      size: fileInfo.size || 0,
+      context,
+    });
+  }
+
+  private runUpload(
+    upload: ResumableUpload,
+    onProgress?: (progress: number) => void
+  ): Promise<MediaUploadResult | null> {
+    const running = this.runningUploads.get(upload.id);
+    if (running) return running;
+
+    const run = (async () => {
+      const finished = await resumableUploadService.start(upload, onProgress);
+      return finished ? this.finishUpload(upload) : null;
+    })().finally(() => this.runningUploads.delete(upload.id));
+
+    this.runningUploads.set(upload.id, run);
+    return run;
+  }
+
+  /**
+   * Create the thumbnail and the attachments row for a fully sent file
+   */
+  private async finishUpload(upload: ResumableUpload): Promise<MediaUploadResult | null> {
+    const { messageId, localUri, type, metadata, posterUri } = upload.context as MediaUploadContext;
+
+    // Create thumbnail for images and videos
+    let thumbnailPath: string | undefined;
+    if (type === 'image') {
+      thumbnailPath = await this.createImageThumbnail(localUri, upload.objectName);
+    } else if (type === 'video' && posterUri) {
+      thumbnailPath = await this.createVideoThumbnail(posterUri, upload.objectName);
     }
+
+    if (resumableUploadService.isCancelled(upload.id)) {
+      await this.deleteMedia(upload.objectName, thumbnailPath);
+      return null;
+    }
+
+    // Save attachment metadata to database
+    const { data: attachmentData, error: dbError } = await supabase
+      .from('attachments')
+      .insert({
+        message_id: messageId,
+        file_path: upload.objectName,
+        file_type: upload.contentType,
+        file_size: upload.size,
+        thumbnail_path: thumbnailPath,
+        metadata,
+      })
+      .select('id')
+      .single();
+
+    // The file is on the server either way, so the upload itself is done
+    await resumableUploadService.remove(upload.id);
+
+    if (dbError) {
+      console.error('Error saving attachment metadata:', dbError);
+      // Clean up uploaded file if database save fails
+      await this.deleteMedia(upload.objectName, thumbnailPath);
+      throw dbError;
+    }
+
+    return {
+      attachmentId: attachmentData.id,
+      filePath: upload.objectName,
+      thumbnailPath,
+      fileSize: upload.size,
+      fileType: upload.contentType,
+      metadata,
+    };
+  }
+
+  /**
+   * Drop a finished or cancelled upload from its message's hold, publishing
+   * the message once nothing is left
+   */
+  private async settleUpload(uploadId: string): Promise<void> {
+    let released: string | undefined;
+    await this.updateHolds(holds => {
+      for (const [messageId, uploadIds] of Object.entries(holds)) {
+        if (!uploadIds.includes(uploadId)) continue;
+
+        holds[messageId] = uploadIds.filter(id => id !== uploadId);
+        if (holds[messageId].length === 0) {
+          released = messageId;
+        }
+      }
+    });
+
+    if (released) {
+      await this.publishHeld(released);
+    }
+  }
+
+  /**
+   * Release holds whose uploads were lost, e.g. when the app closed before
+   * they were recorded, and retry publishes that failed
+   */
+  private async releaseStaleHolds(): Promise<void> {
+    const pending = new Set((await resumableUploadService.listPending()).map(upload => upload.id));
+    const released: string[] = [];
+
+    await this.updateHolds(holds => {
+      for (const [messageId, uploadIds] of Object.entries(holds)) {
+        holds[messageId] = uploadIds.filter(id => pending.has(id) || this.heldThisSession.has(id));
+        if (holds[messageId].length === 0) {
+          released.push(messageId);
+        }
+      }
+    });
+
+    for (const messageId of released) {
+      await this.publishHeld(messageId);
+    }
+  }
+
+  private async publishHeld(messageId: string): Promise<void> {
+    if (!(await supabaseService.publishMessage(messageId))) return;
+
+    await this.updateHolds(holds => {
+      if (holds[messageId]?.length === 0) {
+        delete holds[messageId];
+      }
+    });
+  }
+
+  private updateHolds(change: (holds: Record<string, string[]>) => void): Promise<void> {
+    this.holdWrites = this.holdWrites.then(async () => {
+      try {
+        const jsonValue = await AsyncStorage.getItem(HELD_MESSAGES_KEY);
+        const holds: Record<string, string[]> = jsonValue ? JSON.parse(jsonValue) : {};
+        change(holds);
+        await AsyncStorage.setItem(HELD_MESSAGES_KEY, JSON.stringify(holds));
+      } catch (error) {
+        console.error('Error saving held messages:', error);
+      }
+    });
+    return this.holdWrites;
   }
 
   private async createImageThumbnail(originalUri: string, fileName: string): Promise<string | undefined> {
@@ -404,12 +614,81 @@ class SupabaseMediaStorage {
     }
   }
 
-  private async createVideoThumbnail(videoUri: string, fileName: string): Promise<string | undefined> {
+  /**
+   * Read a video's length and size and grab a poster frame for it
+   *
+   * Stored in attachments.metadata so chats can lay the video out and show
+   * its duration before it loads.
+   */
+  private async extractVideoMetadata(
+    videoUri: string,
+    knownDuration?: number
+  ): Promise<{ posterUri?: string; metadata: MediaMetadata }> {
+    const metadata: MediaMetadata = {};
+    const duration = knownDuration ?? (await this.getVideoDuration(videoUri));
+    if (duration) {
+      metadata.duration = duration;
+    }
+
+    try {
+      const poster = await VideoThumbnails.getThumbnailAsync(videoUri, {
+        time: duration ? Math.min(POSTER_FRAME_MS, (duration * 1000) / 2) : 0,
+        quality: 0.8,
+      });
+      // The frame comes out at the video's display size, rotation applied
+      metadata.width = poster.width;
+      metadata.height = poster.height;
+      return { posterUri: poster.uri, metadata };
+    } catch (error) {
+      console.error('Error extracting poster frame:', error);
+      return { metadata };
+    }
+  }
+
+  private async getVideoDuration(videoUri: string): Promise<number | undefined> {
+    let sound: Audio.Sound | undefined;
     try {
-      // For video thumbnails, we'd need to extract a frame
-      // This is more complex and might require additional native modules
-      // For now, return undefined (no thumbnail for videos)
+      const loaded = await Audio.Sound.createAsync({ uri: videoUri }, { shouldPlay: false });
+      sound = loaded.sound;
+      return loaded.status.isLoaded && loaded.status.durationMillis
+        ? loaded.status.durationMillis / 1000
+        : undefined;
+    } catch (error) {
+      console.error('Error reading video duration:', error);
       return undefined;
+    } finally {
+      await sound?.unloadAsync().catch(() => {});
+    }
+  }
+
+  private async createVideoThumbnail(posterUri: string, fileName: string): Promise<string | undefined> {
+    try {
+      // Scale by width only so the poster keeps the video's aspect ratio
+      const thumbResult = await ImageManipulator.manipulateAsync(
+        posterUri,
+        [{ resize: { width: VIDEO_THUMBNAIL_WIDTH } }],
+        {
+          compress: 0.7,
+          format: ImageManipulator.SaveFormat.JPEG,
+          base64: true,
+        }
+      );
+
+      const thumbFileName = `thumb_${fileName}.jpg`;
+
+      const { data, error } = await supabase.storage
+        .from(this.THUMBNAIL_BUCKET)
+        .upload(thumbFileName, decode(thumbResult.base64!), {
+          contentType: 'image/jpeg',
+          upsert: false,
+        });
+
+      if (error) {
+        console.error('Error uploading thumbnail:', error);
+        return undefined;
+      }
+
+      return data.path;
     } catch (error) {
       console.error('Error creating video thumbnail:', error);
       return undefined;
@@ -436,14 +715,6 @@ class SupabaseMediaStorage {
 
     return mimeTypes[extension] || 'application/octet-stream';
   }
-
-  private async deleteFile(filePath: string): Promise<void> {
-    try {
-      await supabase.storage.from(this.BUCKET_NAME).remove([filePath]);
-    } catch (error) {
-      console.error('Error deleting file:', error);
-    }
-  }
 }
 
 // Export singleton instance
@@ -1,7 +1,18 @@
 import { supabase, Database, Tables } from '../utils/supabase';
 import { authService } from './authService';
-import { Group, Message, ChatUser, GroupSettings, DisbandReason, GroupbySettings } from '../types';
-import { RealtimeChannel } from '@supabase/supabase-js';
+import { StorageService } from './storage';
+import {
+  decodeDisbandReason,
+  decodeExtensionProposalStatus,
+  decodeGroupSettings,
+  decodeGroupStatus,
+  decodeJoinRequestStatus,
+  decodeMutedUntil,
+  encodeLifespan,
+  encodeMutedUntil,
+} from '../utils/codecs';
+import { Attachment, Group, GroupInvite, GroupInvitePreview, JoinGroupResult, JoinRequest, GroupStatus, Message, MessageEdit, MessageReaction, ReadCursor, PresenceStatus, ChatUser, ExtensionProposal, GroupSettings, GroupbySettings } from '../types';
+import { RealtimeChannel, RealtimePresenceState } from '@supabase/supabase-js';
 
 export interface GroupCreationData {
   name: string;
@@ -14,95 +25,161 @@ export interface MessageCreationData {
   content: string;
   messageType?: 'text' | 'image' | 'video' | 'file';
   replyTo?: string;
+  uploading?: boolean; // Hold back from the group until publishMessage()
+}
+
+// Columns needed to turn a messages row into a Message
+const MESSAGE_SELECT = `
+  id,
+  content,
+  created_at,
+  updated_at,
+  message_type,
+  reply_to,
+  edited_at,
+  deleted_at,
+  uploading,
+  status,
+  user_id,
+  users!inner (
+    display_name,
+    avatar_url
+  ),
+  attachments (
+    id,
+    file_path,
+    file_type,
+    file_size,
+    thumbnail_path,
+    metadata
+  ),
+  message_reactions (
+    emoji,
+    user_id,
+    created_at,
+    users (
+      display_name
+    )
+  )
+`;
+
+type AttachmentRow = Pick<
+  Tables<'attachments'>,
+  'id' | 'file_path' | 'file_type' | 'file_size' | 'thumbnail_path' | 'metadata'
+>;
+
+type ReactionRow = Pick<Tables<'message_reactions'>, 'emoji' | 'user_id' | 'created_at'> & {
+  users?: Pick<Tables<'users'>, 'display_name'> | null;
+};
+
+// A messages row as selected with MESSAGE_SELECT, or bare from realtime
+type MessageRow = Omit<Tables<'messages'>, 'group_id'> & {
+  users?: Pick<Tables<'users'>, 'display_name' | 'avatar_url'> | null;
+  attachments?: AttachmentRow[];
+  message_reactions?: ReactionRow[];
+};
+
+// A row returned by get_user_groups
+type UserGroupRow = Omit<Tables<'groups'>, 'extension_quorum'> & {
+  extension_quorum: number | string | null;
+  invite_code: string | null;
+  invite_code_expires_at: string | null;
+  last_activity: string | null;
+  unread_count: number | null;
+  muted_until: string | null;
+  message_count: number | string;
+  members: (Pick<Tables<'users'>, 'id' | 'display_name' | 'avatar_url' | 'last_seen_at'> &
+    Pick<Tables<'group_members'>, 'role'>)[];
+  last_message: (Pick<Tables<'messages'>, 'id' | 'content' | 'created_at' | 'user_id' | 'deleted_at'> & {
+    display_name: string | null;
+  }) | null;
+};
+
+type ExtensionProposalRow = Tables<'group_extension_proposals'> & {
+  group_extension_votes?: Pick<Tables<'group_extension_votes'>, 'user_id' | 'approve'>[];
+};
+
+type JoinRequestRow = Pick<Tables<'group_join_requests'>, 'id' | 'group_id' | 'user_id' | 'status' | 'created_at'> & {
+  users?: Pick<Tables<'users'>, 'display_name'> | null;
+};
+
+type ReadCursorRow = Pick<Tables<'group_members'>, 'user_id' | 'last_read_message_id' | 'last_read_at'>;
+
+// Rows returned by join_group_with_invite and preview_group_by_invite
+interface JoinGroupRow {
+  result: 'joined' | 'pending' | 'invalid' | 'rate_limited';
+  result_group_id: string | null;
+}
+
+interface InvitePreviewRow {
+  id: string;
+  name: string;
+  member_count: number | string;
+  expires_at: string | null;
+  is_member: boolean;
+  require_approval: boolean;
+  has_pending_request: boolean;
+}
+
+// Tracked on a group's presence channel, once per device
+interface PresenceMeta {
+  status: PresenceStatus;
+}
+
+// Broadcast on a group's typing channel
+interface TypingPayload {
+  userId: string;
+  userName: string;
+  isTyping: boolean;
+}
+
+export const ARCHIVED_GROUPS_PAGE_SIZE = 20;
+
+// Mirrors the limit enforced by propose_group_extension in schema.sql
+export const MAX_GROUP_EXTENSIONS = 3;
+
+// Mirrors the member cap enforced by join_group_with_invite in schema.sql
+export const MAX_GROUP_MEMBERS = 50;
+
+const TYPING_THROTTLE_MS = 2000; // Minimum gap between "typing" broadcasts
+const TYPING_IDLE_MS = 4000; // Sender stops typing after this much silence
+const TYPING_TIMEOUT_MS = 6000; // Receivers drop typists they stop hearing from
+
+interface MessageCache {
+  messages: Message[];
+  // Latest server-side updated_at seen, used for catch-up after reconnects
+  lastUpdatedAt?: string;
 }
 
 class SupabaseStorageService {
   private groupSubscriptions: Map<string, RealtimeChannel> = new Map();
   private groupUpdateListeners: Map<string, ((group: Group) => void)[]> = new Map();
   private messageListeners: Map<string, ((messages: Message[]) => void)[]> = new Map();
+  private messageSubscriptions: Map<string, RealtimeChannel> = new Map();
+  private messageCaches: Map<string, MessageCache> = new Map();
+  private userNames: Map<string, string> = new Map();
+  private readCursorListeners: Map<string, ((cursors: ReadCursor[]) => void)[]> = new Map();
+  private readCursorSubscriptions: Map<string, RealtimeChannel> = new Map();
+  private readCursorCaches: Map<string, Map<string, ReadCursor>> = new Map();
+  private typingListeners: Map<string, ((users: ChatUser[]) => void)[]> = new Map();
+  private typingChannels: Map<string, RealtimeChannel> = new Map();
+  private typingUsers: Map<string, Map<string, { user: ChatUser; timeout: ReturnType<typeof setTimeout> }>> = new Map();
+  private typingSentAt: Map<string, number> = new Map();
+  private typingIdleTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private presenceChannels: Map<string, RealtimeChannel> = new Map();
+  private presenceStatus: 'online' | 'away' = 'online';
 
   /**
    * Load all groups for the current user
+   *
+   * Active groups are always returned in full; archived groups are limited to
+   * the first page (see loadArchivedGroups for the rest).
    */
   async loadGroups(): Promise<{ activeGroups: Group[]; archivedGroups: Group[] }> {
     try {
-      const currentUser = await authService.getCurrentChatUser();
-      if (!currentUser) {
-        return { activeGroups: [], archivedGroups: [] };
-      }
-
-      // Get all groups for the user with member data
-      const { data: groupMemberships, error } = await supabase
-        .from('group_members')
-        .select(`
-          unread_count,
-          groups!inner (
-            id,
-            name,
-            description,
-            created_by,
-            created_at,
-            updated_at,
-            expires_at,
-            inactivity_threshold,
-            message_limit,
-            status,
-            invite_code,
-            disbanded_at,
-            disband_reason,
-            archived_until,
-            last_activity
-          )
-        `)
-        .eq('user_id', currentUser.id);
+      const groups = await this.fetchUserGroups(true, ARCHIVED_GROUPS_PAGE_SIZE, 0);
 
-      if (error) {
-        console.error('Error loading groups:', error);
-        return { activeGroups: [], archivedGroups: [] };
-      }
-
-      const groups: Group[] = [];
-
-      for (const membership of groupMemberships || []) {
-        const groupData = membership.groups;
-
-        // Get group members
-        const members = await this.getGroupMembers(groupData.id);
-
-        // Get last message
-        const lastMessage = await this.getLastMessage(groupData.id);
-
-        // Get message count
-        const messageCount = await this.getMessageCount(groupData.id);
-
-        const group: Group = {
-          id: groupData.id,
-          name: groupData.name,
-          description: groupData.description || undefined,
-          members,
-          createdAt: new Date(groupData.created_at),
-          createdBy: groupData.created_by || '',
-          lastMessage,
-          lastActivity: new Date(groupData.last_activity || groupData.updated_at),
-          unreadCount: membership.unread_count,
-          messages: [], // Messages will be loaded separately when needed
-          status: groupData.status as any,
-          settings: {
-            lifespan: this.mapExpiresToLifespan(groupData.expires_at, groupData.created_at),
-            messageLimit: groupData.message_limit || undefined,
-            inactivityDays: groupData.inactivity_threshold || undefined,
-          },
-          messageCount,
-          disbandedAt: groupData.disbanded_at ? new Date(groupData.disbanded_at) : undefined,
-          disbandReason: groupData.disband_reason as DisbandReason,
-          archivedUntil: groupData.archived_until ? new Date(groupData.archived_until) : undefined,
-          inviteCode: groupData.invite_code || undefined,
-        };
-
-        groups.push(group);
-      }
-
-      const activeGroups = groups.filter(g => g.status === 'active' || g.status === 'expiring');
+      const activeGroups = groups.filter(g => g.status !== 'archived');
       const archivedGroups = groups.filter(g => g.status === 'archived');
 
       return { activeGroups, archivedGroups };
@@ -112,63 +189,48 @@ class SupabaseStorageService {
     }
   }
 
+  /**
+   * Load a page of archived groups for the current user
+   */
+  async loadArchivedGroups(offset: number, limit: number = ARCHIVED_GROUPS_PAGE_SIZE): Promise<Group[]> {
+    try {
+      return await this.fetchUserGroups(false, limit, offset);
+    } catch (error) {
+      console.error('Error loading archived groups:', error);
+      return [];
+    }
+  }
+
   /**
    * Load messages for a specific group
    */
   async loadMessages(groupId: string): Promise<Message[]> {
     try {
-      const { data: messages, error } = await supabase
+      const { data: rows, error } = await supabase
         .from('messages')
-        .select(`
-          id,
-          content,
-          created_at,
-          updated_at,
-          message_type,
-          reply_to,
-          edited_at,
-          status,
-          user_id,
-          users!inner (
-            display_name,
-            avatar_url
-          ),
-          attachments (
-            id,
-            file_path,
-            file_type,
-            file_size,
-            thumbnail_path,
-            metadata
-          )
-        `)
+        .select(MESSAGE_SELECT)
         .eq('group_id', groupId)
-        .order('created_at', { ascending: true });
+        .is('message_reactions.removed_at', null)
+        .order('created_at', { ascending: true })
+        .overrideTypes<MessageRow[], { merge: false }>();
 
       if (error) {
         console.error('Error loading messages:', error);
         return [];
       }
 
-      const currentUser = await authService.getCurrentChatUser();
+      const currentUserId = await this.getCurrentUserId();
+      const messages = (rows || []).map(row => this.mapMessageRow(row, currentUserId));
 
-      return (messages || []).map(msg => ({
-        id: msg.id,
-        text: msg.content,
-        timestamp: new Date(msg.created_at),
-        isOwnMessage: msg.user_id === currentUser?.id,
-        sender: msg.users?.display_name || 'Unknown User',
-        status: msg.status as any,
-        deliveryTime: msg.updated_at ? new Date(msg.updated_at) : undefined,
-        attachments: msg.attachments?.map(att => ({
-          id: att.id,
-          type: att.file_type.startsWith('image/') ? 'image' : 'video',
-          uri: att.file_path,
-          size: att.file_size,
-          thumbnailUri: att.thumbnail_path,
-          metadata: att.metadata,
-        })),
-      }));
+      // Seed the realtime cache so later events can be merged incrementally
+      if (this.messageListeners.has(groupId)) {
+        this.messageCaches.set(groupId, {
+          messages,
+          lastUpdatedAt: this.getLatestUpdatedAt(rows || []),
+        });
+      }
+
+      return messages;
     } catch (error) {
       console.error('Error loading messages:', error);
       return [];
@@ -192,14 +254,11 @@ class SupabaseStorageService {
         throw new Error('Failed to get user profile');
       }
 
-      // Calculate expiration time based on lifespan
-      let expiresAt: string | null = null;
-      if (data.settings.lifespan !== 'custom') {
-        const lifespanHours = this.getLifespanHours(data.settings.lifespan);
-        if (lifespanHours > 0) {
-          expiresAt = new Date(Date.now() + lifespanHours * 60 * 60 * 1000).toISOString();
-        }
-      }
+      const expiresAt = encodeLifespan(
+        data.settings.lifespan,
+        new Date(),
+        data.settings.expirationTime
+      );
 
       // Create the group using auth.uid() to satisfy RLS policy
       const { data: groupData, error: groupError } = await supabase
@@ -209,8 +268,13 @@ class SupabaseStorageService {
           description: data.description,
           created_by: user.id, // Use authenticated user ID directly
           expires_at: expiresAt,
-          inactivity_threshold: data.settings.inactivityDays,
+          inactivity_threshold: data.settings.inactivityThreshold,
           message_limit: data.settings.messageLimit,
+          warn_before_expiry: data.settings.warnBeforeExpiry,
+          allow_extension: data.settings.allowExtension,
+          extension_approval: data.settings.extensionApproval,
+          extension_quorum: data.settings.extensionQuorum,
+          require_approval: data.settings.requireApproval,
         })
         .select()
         .single();
@@ -234,12 +298,21 @@ class SupabaseStorageService {
         return null;
       }
 
+      // The default invite is created by a trigger once the group exists
+      const { data: inviteData } = await supabase
+        .from('group_invites')
+        .select('code, expires_at')
+        .eq('group_id', groupData.id)
+        .eq('is_default', true)
+        .eq('revoked', false)
+        .maybeSingle();
+
       // Convert to Group format
       const group: Group = {
         id: groupData.id,
         name: groupData.name,
         description: groupData.description || undefined,
-        members: [currentUser],
+        members: [{ ...currentUser, role: 'admin' }],
         createdAt: new Date(groupData.created_at),
         createdBy: user.id, // Use authenticated user ID
         lastActivity: new Date(groupData.created_at),
@@ -248,7 +321,8 @@ class SupabaseStorageService {
         status: 'active',
         settings: data.settings,
         messageCount: 0,
-        inviteCode: groupData.invite_code || undefined,
+        inviteCode: inviteData?.code || undefined,
+        inviteCodeExpiresAt: inviteData?.expires_at ? new Date(inviteData.expires_at) : undefined,
       };
 
       return group;
@@ -289,6 +363,7 @@ class SupabaseStorageService {
           content: data.content,
           message_type: data.messageType || 'text',
           reply_to: data.replyTo,
+          uploading: !!data.uploading,
         })
         .select()
         .single();
@@ -298,13 +373,6 @@ class SupabaseStorageService {
         return null;
       }
 
-      // Reset unread count for sender
-      await supabase
-        .from('group_members')
-        .update({ unread_count: 0 })
-        .eq('group_id', data.groupId)
-        .eq('user_id', currentUser.id);
-
       // Convert to Message format
       const message: Message = {
         id: messageData.id,
@@ -312,7 +380,8 @@ class SupabaseStorageService {
         timestamp: new Date(messageData.created_at),
         isOwnMessage: true,
         sender: currentUser.name,
-        status: 'sent',
+        status: messageData.uploading ? 'pending' : 'sent',
+        replyToId: messageData.reply_to || undefined,
       };
 
       return message;
@@ -325,60 +394,72 @@ class SupabaseStorageService {
   /**
    * Join a group using invite code
    */
-  async joinGroupWithCode(inviteCode: string): Promise<Group | null> {
+  async joinGroupWithCode(inviteCode: string): Promise<JoinGroupResult> {
     try {
       const currentUser = await authService.getCurrentChatUser();
       if (!currentUser) {
         throw new Error('User must be authenticated to join groups');
       }
 
-      // Find group by invite code
-      const { data: groupData, error: groupError } = await supabase
-        .from('groups')
-        .select('*')
-        .eq('invite_code', inviteCode)
-        .eq('status', 'active')
-        .single();
-
-      if (groupError || !groupData) {
-        throw new Error('Invalid or expired invite code');
-      }
+      // Validates the invite, adds the membership and counts the use.
+      // Bad codes and throttling come back as results, not errors.
+      const { data, error: joinError } = await supabase
+        .rpc('join_group_with_invite', { code: inviteCode })
+        .single()
+        .overrideTypes<JoinGroupRow, { merge: false }>();
 
-      // Check if invite code is expired
-      if (groupData.invite_code_expires_at && new Date(groupData.invite_code_expires_at) < new Date()) {
-        throw new Error('Invite code has expired');
+      if (joinError || !data) {
+        console.error('Error joining group:', joinError);
+        return { status: 'failed' };
       }
 
-      // Check if user is already a member
-      const { data: existingMembership } = await supabase
-        .from('group_members')
-        .select('*')
-        .eq('group_id', groupData.id)
-        .eq('user_id', currentUser.id)
-        .single();
-
-      if (existingMembership) {
-        throw new Error('You are already a member of this group');
+      const row = data;
+      if (row.result === 'pending') {
+        return { status: 'pending', groupId: row.result_group_id! };
       }
-
-      // Join the group
-      const { error: joinError } = await supabase
-        .from('group_members')
-        .insert({
-          group_id: groupData.id,
-          user_id: currentUser.id,
-          role: 'member',
-        });
-
-      if (joinError) {
-        throw new Error('Failed to join group');
+      if (row.result !== 'joined') {
+        return { status: row.result === 'rate_limited' ? 'rate_limited' : 'invalid' };
       }
 
       // Load and return the group
       const { activeGroups } = await this.loadGroups();
-      return activeGroups.find(g => g.id === groupData.id) || null;
+      const group = activeGroups.find(g => g.id === row.result_group_id);
+      return group ? { status: 'joined', group } : { status: 'failed' };
     } catch (error) {
       console.error('Error joining group:', error);
+      return { status: 'failed' };
+    }
+  }
+
+  /**
+   * Look up the group behind an invite code without joining it
+   */
+  async previewGroupByInvite(inviteCode: string): Promise<GroupInvitePreview | null> {
+    try {
+      const { data, error } = await supabase
+        .rpc('preview_group_by_invite', { code: inviteCode })
+        .maybeSingle()
+        .overrideTypes<InvitePreviewRow | null, { merge: false }>();
+
+      if (error) {
+        console.error('Error previewing group:', error);
+        return null;
+      }
+
+      if (!data) return null;
+
+      const row = data;
+      return {
+        id: row.id,
+        name: row.name,
+        memberCount: Number(row.member_count) || 0,
+        expirationTime: row.expires_at ? new Date(row.expires_at) : undefined,
+        isMember: !!row.is_member,
+        requireApproval: !!row.require_approval,
+        hasPendingRequest: !!row.has_pending_request,
+      };
+    } catch (error) {
+      console.error('Error previewing group:', error);
       return null;
     }
   }
@@ -407,230 +488,1572 @@ class SupabaseStorageService {
   }
 
   /**
-   * Process expired groups (called periodically)
+   * Edit the text of one of the current user's messages
+   *
+   * RLS rejects edits in archived groups; the previous text is kept in
+   * message_edits by a trigger.
    */
-  async processExpiredGroups(): Promise<void> {
+  async editMessage(messageId: string, content: string): Promise<boolean> {
     try {
-      // Call the database function to process expired groups
-      const { error } = await supabase.rpc('process_expired_groups');
+      const { data, error } = await supabase
+        .from('messages')
+        .update({ content })
+        .eq('id', messageId)
+        .select('id');
 
-      if (error) {
-        console.error('Error processing expired groups:', error);
+      if (error || !data?.length) {
+        console.error('Error editing message:', error || 'Message not editable');
+        return false;
       }
+
+      return true;
     } catch (error) {
-      console.error('Error processing expired groups:', error);
+      console.error('Error editing message:', error);
+      return false;
     }
   }
 
   /**
-   * Subscribe to real-time updates for a group
+   * Release a message held back while its attachments uploaded
+   *
+   * A message left with nothing to show is deleted instead. Returns false
+   * if the server could not be reached.
    */
-  subscribeToGroup(groupId: string, onUpdate: (group: Group) => void): () => void {
-    if (!this.groupUpdateListeners.has(groupId)) {
-      this.groupUpdateListeners.set(groupId, []);
-    }
-    this.groupUpdateListeners.get(groupId)!.push(onUpdate);
-
-    // Create real-time subscription if not exists
-    if (!this.groupSubscriptions.has(groupId)) {
-      const channel = supabase
-        .channel(`group_${groupId}`)
-        .on(
-          'postgres_changes',
-          {
-            event: '*',
-            schema: 'public',
-            table: 'groups',
-            filter: `id=eq.${groupId}`,
-          },
-          (payload) => {
-            this.handleGroupUpdate(groupId, payload);
-          }
-        )
-        .subscribe();
-
-      this.groupSubscriptions.set(groupId, channel);
-    }
+  async publishMessage(messageId: string): Promise<boolean> {
+    try {
+      const { data: published, error } = await supabase.rpc('publish_message', {
+        target_message_id: messageId,
+      });
 
-    // Return unsubscribe function
-    return () => {
-      const listeners = this.groupUpdateListeners.get(groupId) || [];
-      const index = listeners.indexOf(onUpdate);
-      if (index > -1) {
-        listeners.splice(index, 1);
+      if (error) {
+        console.error('Error publishing message:', error);
+        return false;
       }
 
-      // Remove subscription if no more listeners
-      if (listeners.length === 0) {
-        const channel = this.groupSubscriptions.get(groupId);
-        if (channel) {
-          supabase.removeChannel(channel);
-          this.groupSubscriptions.delete(groupId);
-        }
-        this.groupUpdateListeners.delete(groupId);
+      if (!published) {
+        this.removeCachedMessage(messageId);
       }
-    };
+      return true;
+    } catch (error) {
+      console.error('Error publishing message:', error);
+      return false;
+    }
   }
 
   /**
-   * Subscribe to real-time messages for a group
+   * Storage paths of a message's attachments, e.g. to remove the files once
+   * the message is deleted
    */
-  subscribeToMessages(groupId: string, onMessage: (messages: Message[]) => void): () => void {
-    if (!this.messageListeners.has(groupId)) {
-      this.messageListeners.set(groupId, []);
-    }
-    this.messageListeners.get(groupId)!.push(onMessage);
-
-    const channel = supabase
-      .channel(`messages_${groupId}`)
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'messages',
-          filter: `group_id=eq.${groupId}`,
-        },
-        async () => {
-          // Reload messages when new message is inserted
-          const messages = await this.loadMessages(groupId);
-          this.messageListeners.get(groupId)?.forEach(listener => listener(messages));
-        }
-      )
-      .subscribe();
+  async getAttachmentFiles(messageId: string): Promise<{ filePath: string; thumbnailPath?: string }[]> {
+    try {
+      const { data, error } = await supabase
+        .from('attachments')
+        .select('file_path, thumbnail_path')
+        .eq('message_id', messageId)
+        .overrideTypes<Pick<Tables<'attachments'>, 'file_path' | 'thumbnail_path'>[], { merge: false }>();
 
-    // Return unsubscribe function
-    return () => {
-      const listeners = this.messageListeners.get(groupId) || [];
-      const index = listeners.indexOf(onMessage);
-      if (index > -1) {
-        listeners.splice(index, 1);
+      if (error) {
+        console.error('Error loading attachment files:', error);
+        return [];
       }
 
-      if (listeners.length === 0) {
-        supabase.removeChannel(channel);
-        this.messageListeners.delete(groupId);
-      }
-    };
+      return (data || []).map(row => ({
+        filePath: row.file_path,
+        thumbnailPath: row.thumbnail_path || undefined,
+      }));
+    } catch (error) {
+      console.error('Error loading attachment files:', error);
+      return [];
+    }
   }
 
   /**
-   * Load app settings
+   * Delete one of the current user's messages, leaving a tombstone
+   *
+   * Its attachment rows go with it; remove their files with
+   * getAttachmentFiles() and supabaseMediaStorage.deleteMedia().
    */
-  async loadSettings(): Promise<GroupbySettings> {
-    // For now, return default settings
-    // In the future, this could load from user preferences table
-    return {
-      theme: 'light',
-      notifications: {
-        enabled: true,
-        groupExpiring: true,
-        newMessages: true,
-        memberJoined: true,
-      },
-      hapticFeedback: true,
-    };
+  async deleteMessage(messageId: string): Promise<boolean> {
+    try {
+      const { data, error } = await supabase
+        .from('messages')
+        .update({ deleted_at: new Date().toISOString() })
+        .eq('id', messageId)
+        .select('id');
+
+      if (error || !data?.length) {
+        console.error('Error deleting message:', error || 'Message not deletable');
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error deleting message:', error);
+      return false;
+    }
   }
 
   /**
-   * Save app settings
+   * Load previous versions of an edited message, newest first
    */
-  async saveSettings(settings: GroupbySettings): Promise<void> {
-    // For now, this is a no-op
-    // In the future, this could save to user preferences table
-    console.log('Settings saved (not implemented yet):', settings);
-  }
-
-  // Helper methods
+  async getMessageEditHistory(messageId: string): Promise<MessageEdit[]> {
+    try {
+      const { data, error } = await supabase
+        .from('message_edits')
+        .select('previous_content, edited_at')
+        .eq('message_id', messageId)
+        .order('edited_at', { ascending: false });
 
-  private async getGroupMembers(groupId: string): Promise<ChatUser[]> {
-    const { data: members, error } = await supabase
-      .from('group_members')
-      .select(`
-        users!inner (
-          id,
-          display_name,
-          avatar_url
-        )
-      `)
-      .eq('group_id', groupId);
+      if (error) {
+        console.error('Error loading edit history:', error);
+        return [];
+      }
 
-    if (error) {
-      console.error('Error loading group members:', error);
+      return (data || []).map(row => ({
+        text: row.previous_content,
+        editedAt: new Date(row.edited_at),
+      }));
+    } catch (error) {
+      console.error('Error loading edit history:', error);
       return [];
     }
-
-    return (members || []).map(member => ({
-      id: member.users.id,
-      name: member.users.display_name,
-      avatar: member.users.avatar_url,
-    }));
   }
 
-  private async getLastMessage(groupId: string): Promise<Message | undefined> {
-    const { data: message, error } = await supabase
-      .from('messages')
-      .select(`
-        id,
-        content,
-        created_at,
-        user_id,
-        users!inner (
-          display_name
-        )
-      `)
-      .eq('group_id', groupId)
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .single();
+  /**
+   * Add a reaction to a message
+   */
+  async addReaction(messageId: string, emoji: string): Promise<boolean> {
+    try {
+      const currentUserId = await this.getCurrentUserId();
+      if (!currentUserId) {
+        throw new Error('User must be authenticated to react to messages');
+      }
 
-    if (error || !message) {
-      return undefined;
-    }
+      // Brings back a reaction removed earlier
+      const { error } = await supabase
+        .from('message_reactions')
+        .upsert(
+          { message_id: messageId, user_id: currentUserId, emoji, removed_at: null },
+          { onConflict: 'message_id,user_id,emoji' }
+        );
 
-    const currentUser = await authService.getCurrentChatUser();
+      if (error) {
+        console.error('Error adding reaction:', error);
+        return false;
+      }
 
-    return {
-      id: message.id,
-      text: message.content,
-      timestamp: new Date(message.created_at),
-      isOwnMessage: message.user_id === currentUser?.id,
-      sender: message.users.display_name,
-      status: 'delivered',
-    };
+      return true;
+    } catch (error) {
+      console.error('Error adding reaction:', error);
+      return false;
+    }
   }
 
-  private async getMessageCount(groupId: string): Promise<number> {
-    const { count, error } = await supabase
-      .from('messages')
-      .select('*', { count: 'exact', head: true })
-      .eq('group_id', groupId);
+  /**
+   * Remove the current user's reaction from a message
+   *
+   * The row is kept with removed_at set, so other members hear about it
+   * through an RLS-checked UPDATE event.
+   */
+  async removeReaction(messageId: string, emoji: string): Promise<boolean> {
+    try {
+      const currentUserId = await this.getCurrentUserId();
+      if (!currentUserId) {
+        throw new Error('User must be authenticated to remove reactions');
+      }
+
+      const { error } = await supabase
+        .from('message_reactions')
+        .update({ removed_at: new Date().toISOString() })
+        .eq('message_id', messageId)
+        .eq('user_id', currentUserId)
+        .eq('emoji', emoji)
+        .is('removed_at', null);
+
+      if (error) {
+        console.error('Error removing reaction:', error);
+        return false;
+      }
 
-    return error ? 0 : (count || 0);
+      return true;
+    } catch (error) {
+      console.error('Error removing reaction:', error);
+      return false;
+    }
   }
 
-  private mapExpiresToLifespan(expiresAt: string | null, createdAt: string): 'hour' | 'day' | 'week' | 'month' | 'custom' {
-    if (!expiresAt) return 'custom';
+  /**
+   * Remove a member from a group (admin only, enforced by RLS)
+   */
+  async removeMember(groupId: string, memberId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('group_members')
+        .delete()
+        .eq('group_id', groupId)
+        .eq('user_id', memberId);
 
-    const created = new Date(createdAt);
-    const expires = new Date(expiresAt);
-    const diffHours = (expires.getTime() - created.getTime()) / (1000 * 60 * 60);
+      if (error) {
+        console.error('Error removing member:', error);
+        return false;
+      }
 
-    if (diffHours <= 1.5) return 'hour';
-    if (diffHours <= 25) return 'day';
-    if (diffHours <= 168) return 'week';
-    if (diffHours <= 720) return 'month';
-    return 'custom';
+      return true;
+    } catch (error) {
+      console.error('Error removing member:', error);
+      return false;
+    }
   }
 
-  private getLifespanHours(lifespan: 'hour' | 'day' | 'week' | 'month' | 'custom'): number {
-    switch (lifespan) {
-      case 'hour': return 1;
-      case 'day': return 24;
-      case 'week': return 168;
-      case 'month': return 720;
-      default: return 0;
-    }
+  /**
+   * Regenerate the invite code for a group (admin only)
+   */
+  async regenerateInviteCode(groupId: string): Promise<string | null> {
+    try {
+      const { data, error } = await supabase.rpc('regenerate_invite_code', {
+        target_group_id: groupId,
+      });
+
+      if (error) {
+        console.error('Error regenerating invite code:', error);
+        return null;
+      }
+
+      return data || null;
+    } catch (error) {
+      console.error('Error regenerating invite code:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Load every invite of a group, newest first (admin only)
+   */
+  async loadGroupInvites(groupId: string): Promise<GroupInvite[]> {
+    try {
+      const { data, error } = await supabase
+        .from('group_invites')
+        .select('*')
+        .eq('group_id', groupId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error loading invites:', error);
+        return [];
+      }
+
+      return (data || []).map(row => this.mapGroupInviteRow(row));
+    } catch (error) {
+      console.error('Error loading invites:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Create an extra invite for a group (admin only)
+   *
+   * Leave expiresInHours or maxUses undefined for no expiry or no limit.
+   */
+  async createGroupInvite(
+    groupId: string,
+    expiresInHours?: number,
+    maxUses?: number
+  ): Promise<GroupInvite | null> {
+    try {
+      const { data, error } = await supabase
+        .rpc('create_group_invite', {
+          target_group_id: groupId,
+          expires_in_hours: expiresInHours ?? null,
+          max_uses: maxUses ?? null,
+        })
+        .single()
+        .overrideTypes<Tables<'group_invites'>, { merge: false }>();
+
+      if (error) {
+        console.error('Error creating invite:', error);
+        return null;
+      }
+
+      return data ? this.mapGroupInviteRow(data) : null;
+    } catch (error) {
+      console.error('Error creating invite:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Revoke an invite so it can no longer be used (admin only)
+   */
+  async revokeGroupInvite(inviteId: string): Promise<boolean> {
+    try {
+      const { data, error } = await supabase.rpc('revoke_group_invite', {
+        target_invite_id: inviteId,
+      });
+
+      if (error) {
+        console.error('Error revoking invite:', error);
+        return false;
+      }
+
+      return !!data;
+    } catch (error) {
+      console.error('Error revoking invite:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Load the pending join requests of a group, oldest first (admin only)
+   */
+  async loadJoinRequests(groupId: string): Promise<JoinRequest[]> {
+    try {
+      const { data, error } = await supabase
+        .from('group_join_requests')
+        .select(`
+          id,
+          group_id,
+          user_id,
+          status,
+          created_at,
+          users!user_id (
+            display_name
+          )
+        `)
+        .eq('group_id', groupId)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true })
+        .overrideTypes<JoinRequestRow[], { merge: false }>();
+
+      if (error) {
+        console.error('Error loading join requests:', error);
+        return [];
+      }
+
+      return (data || []).map(row => this.mapJoinRequestRow(row));
+    } catch (error) {
+      console.error('Error loading join requests:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Approve or reject a pending join request (admin only)
+   */
+  async resolveJoinRequest(requestId: string, approve: boolean): Promise<boolean> {
+    try {
+      const { data, error } = await supabase.rpc('resolve_join_request', {
+        target_request_id: requestId,
+        approve,
+      });
+
+      if (error) {
+        console.error('Error resolving join request:', error);
+        return false;
+      }
+
+      return !!data;
+    } catch (error) {
+      console.error('Error resolving join request:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Subscribe to the pending join requests of a group (admin only)
+   */
+  subscribeToJoinRequests(groupId: string, onChange: (requests: JoinRequest[]) => void): () => void {
+    const reload = async () => {
+      onChange(await this.loadJoinRequests(groupId));
+    };
+
+    const channel = supabase
+      .channel(`join_requests_${groupId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'group_join_requests',
+          filter: `group_id=eq.${groupId}`,
+        },
+        reload
+      )
+      .subscribe();
+
+    reload();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+
+  /**
+   * Subscribe to decisions on the current user's join requests
+   */
+  subscribeToOwnJoinRequests(
+    userId: string,
+    onResolve: (groupId: string, approved: boolean) => void
+  ): () => void {
+    const channel = supabase
+      .channel(`own_join_requests_${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'group_join_requests',
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => {
+          const status = decodeJoinRequestStatus(payload.new.status);
+          if (status !== 'pending') {
+            onResolve(payload.new.group_id, status === 'approved');
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+
+  /**
+   * Advance the current user's read cursor to a message
+   */
+  async markMessagesRead(messageId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase.rpc('mark_messages_read', {
+        target_message_id: messageId,
+      });
+
+      if (error) {
+        console.error('Error marking messages read:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error marking messages read:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Clear the current user's unread count for a group
+   */
+  async markGroupRead(groupId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase.rpc('mark_group_read', {
+        target_group_id: groupId,
+      });
+
+      if (error) {
+        console.error('Error marking group read:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error marking group read:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Mute push notifications for a group until a time, or unmute with null
+   */
+  async setGroupMute(groupId: string, until: Date | null): Promise<boolean> {
+    try {
+      const userId = await this.getCurrentUserId();
+      if (!userId) return false;
+
+      const { error } = await supabase
+        .from('group_members')
+        .update({ muted_until: encodeMutedUntil(until) })
+        .eq('group_id', groupId)
+        .eq('user_id', userId);
+
+      if (error) {
+        console.error('Error muting group:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error muting group:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Register this device's push token for the current user
+   */
+  async registerPushToken(token: string, platform: string): Promise<boolean> {
+    try {
+      const { error } = await supabase.rpc('register_push_token', {
+        device_token: token,
+        device_platform: platform,
+      });
+
+      if (error) {
+        console.error('Error registering push token:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error registering push token:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Stop sending pushes to this device, e.g. before signing out
+   */
+  async unregisterPushToken(token: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('push_tokens')
+        .delete()
+        .eq('token', token);
+
+      if (error) {
+        console.error('Error unregistering push token:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error unregistering push token:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Load every member's read cursor for a group
+   */
+  async loadReadCursors(groupId: string): Promise<ReadCursor[]> {
+    try {
+      const { data, error } = await supabase
+        .from('group_members')
+        .select('user_id, last_read_message_id, last_read_at')
+        .eq('group_id', groupId);
+
+      if (error) {
+        console.error('Error loading read cursors:', error);
+        return [];
+      }
+
+      return (data || []).map(row => this.mapReadCursorRow(row));
+    } catch (error) {
+      console.error('Error loading read cursors:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Load the open or most recently resolved extension proposal for a group
+   */
+  async loadExtensionProposal(groupId: string): Promise<ExtensionProposal | null> {
+    try {
+      const { data, error } = await supabase
+        .from('group_extension_proposals')
+        .select(`
+          id,
+          group_id,
+          proposed_by,
+          extension_hours,
+          status,
+          created_at,
+          resolved_at,
+          group_extension_votes (
+            user_id,
+            approve
+          )
+        `)
+        .eq('group_id', groupId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error loading extension proposal:', error);
+        return null;
+      }
+
+      return data ? this.mapExtensionProposalRow(data) : null;
+    } catch (error) {
+      console.error('Error loading extension proposal:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Propose extending an expiring group's lifetime; the proposer votes yes
+   */
+  async proposeExtension(groupId: string, hours: number): Promise<boolean> {
+    try {
+      const { error } = await supabase.rpc('propose_group_extension', {
+        target_group_id: groupId,
+        hours,
+      });
+
+      if (error) {
+        console.error('Error proposing extension:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error proposing extension:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Vote on an open extension proposal
+   */
+  async voteOnExtension(proposalId: string, approve: boolean): Promise<boolean> {
+    try {
+      const { error } = await supabase.rpc('vote_on_extension', {
+        target_proposal_id: proposalId,
+        approve,
+      });
+
+      if (error) {
+        console.error('Error voting on extension:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error voting on extension:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Subscribe to extension proposals and votes for a group
+   *
+   * Proposals are small, so every change simply reloads the latest one.
+   */
+  subscribeToExtensionProposals(
+    groupId: string,
+    onChange: (proposal: ExtensionProposal | null) => void
+  ): () => void {
+    const reload = async () => {
+      onChange(await this.loadExtensionProposal(groupId));
+    };
+
+    const channel = supabase
+      .channel(`extensions_${groupId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'group_extension_proposals',
+          filter: `group_id=eq.${groupId}`,
+        },
+        reload
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'group_extension_votes',
+          filter: `group_id=eq.${groupId}`,
+        },
+        reload
+      )
+      .subscribe();
+
+    reload();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+
+  /**
+   * Subscribe to status changes of any group the current user belongs to
+   *
+   * Groups are archived by a server-side job and extended by member votes;
+   * RLS limits the events to the user's own groups.
+   */
+  subscribeToGroupStatusChanges(
+    onChange: (groupId: string, change: { status: GroupStatus; expirationTime?: Date; extensionCount: number }) => void
+  ): () => void {
+    const channel = supabase
+      .channel('group_status')
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'groups',
+        },
+        (payload) => {
+          onChange(payload.new.id, {
+            status: decodeGroupStatus(payload.new.status),
+            expirationTime: payload.new.expires_at ? new Date(payload.new.expires_at) : undefined,
+            extensionCount: payload.new.extension_count || 0,
+          });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+
+  /**
+   * Subscribe to real-time updates for a group
+   */
+  subscribeToGroup(groupId: string, onUpdate: (group: Group) => void): () => void {
+    if (!this.groupUpdateListeners.has(groupId)) {
+      this.groupUpdateListeners.set(groupId, []);
+    }
+    this.groupUpdateListeners.get(groupId)!.push(onUpdate);
+
+    // Create real-time subscription if not exists
+    if (!this.groupSubscriptions.has(groupId)) {
+      const channel = supabase
+        .channel(`group_${groupId}`)
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'groups',
+            filter: `id=eq.${groupId}`,
+          },
+          (payload) => {
+            this.handleGroupUpdate(groupId, payload);
+          }
+        )
+        .subscribe();
+
+      this.groupSubscriptions.set(groupId, channel);
+    }
+
+    // Return unsubscribe function
+    return () => {
+      const listeners = this.groupUpdateListeners.get(groupId) || [];
+      const index = listeners.indexOf(onUpdate);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+
+      // Remove subscription if no more listeners
+      if (listeners.length === 0) {
+        const channel = this.groupSubscriptions.get(groupId);
+        if (channel) {
+          supabase.removeChannel(channel);
+          this.groupSubscriptions.delete(groupId);
+        }
+        this.groupUpdateListeners.delete(groupId);
+      }
+    };
+  }
+
+  /**
+   * Subscribe to real-time messages for a group
+   *
+   * Realtime payloads are merged into a per-group in-memory list, so
+   * listeners always receive the full, ordered message list without the
+   * history being refetched for every event.
+   */
+  subscribeToMessages(groupId: string, onMessage: (messages: Message[]) => void): () => void {
+    if (!this.messageListeners.has(groupId)) {
+      this.messageListeners.set(groupId, []);
+    }
+    this.messageListeners.get(groupId)!.push(onMessage);
+
+    if (!this.messageSubscriptions.has(groupId)) {
+      const channel = supabase
+        .channel(`messages_${groupId}`)
+        .on<Tables<'messages'>>(
+          'postgres_changes',
+          {
+            event: 'INSERT',
+            schema: 'public',
+            table: 'messages',
+            filter: `group_id=eq.${groupId}`,
+          },
+          (payload) => {
+            this.handleMessageInsert(groupId, payload.new);
+          }
+        )
+        .on<Tables<'messages'>>(
+          'postgres_changes',
+          {
+            event: 'UPDATE',
+            schema: 'public',
+            table: 'messages',
+            filter: `group_id=eq.${groupId}`,
+          },
+          (payload) => {
+            this.handleMessageUpdate(groupId, payload.new);
+          }
+        )
+        .on<Tables<'attachments'>>(
+          'postgres_changes',
+          {
+            event: 'INSERT',
+            schema: 'public',
+            table: 'attachments',
+            filter: `group_id=eq.${groupId}`,
+          },
+          (payload) => {
+            this.handleAttachmentInsert(groupId, payload.new);
+          }
+        )
+        .on<Tables<'message_reactions'>>(
+          'postgres_changes',
+          {
+            event: 'INSERT',
+            schema: 'public',
+            table: 'message_reactions',
+            filter: `group_id=eq.${groupId}`,
+          },
+          (payload) => {
+            this.handleReactionInsert(groupId, payload.new);
+          }
+        )
+        .on<Tables<'message_reactions'>>(
+          'postgres_changes',
+          {
+            event: 'UPDATE',
+            schema: 'public',
+            table: 'message_reactions',
+            filter: `group_id=eq.${groupId}`,
+          },
+          (payload) => {
+            if (payload.new.removed_at) {
+              this.handleReactionRemove(groupId, payload.new);
+            } else {
+              this.handleReactionInsert(groupId, payload.new);
+            }
+          }
+        )
+        .subscribe((status) => {
+          // Fires on the first join and again after every reconnect
+          if (status === 'SUBSCRIBED') {
+            this.catchUpMessages(groupId);
+          }
+        });
+
+      this.messageSubscriptions.set(groupId, channel);
+    } else {
+      const cache = this.messageCaches.get(groupId);
+      if (cache) {
+        onMessage(cache.messages);
+      }
+    }
+
+    // Return unsubscribe function
+    return () => {
+      const listeners = this.messageListeners.get(groupId) || [];
+      const index = listeners.indexOf(onMessage);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+
+      if (listeners.length === 0) {
+        const channel = this.messageSubscriptions.get(groupId);
+        if (channel) {
+          supabase.removeChannel(channel);
+          this.messageSubscriptions.delete(groupId);
+        }
+        this.messageListeners.delete(groupId);
+        this.messageCaches.delete(groupId);
+      }
+    };
+  }
+
+  /**
+   * Subscribe to the current user's unread counts across all groups
+   *
+   * Counts are maintained by a database trigger, so this keeps badges in
+   * sync with other devices. A group's first unread message creates its row.
+   */
+  subscribeToUnreadCounts(userId: string, onUpdate: (groupId: string, unreadCount: number) => void): () => void {
+    const handleChange = (row: Tables<'group_unread_counts'>) => {
+      onUpdate(row.group_id, row.unread_count || 0);
+    };
+
+    const channel = supabase
+      .channel(`unread_counts_${userId}`)
+      .on<Tables<'group_unread_counts'>>(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'group_unread_counts',
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => handleChange(payload.new)
+      )
+      .on<Tables<'group_unread_counts'>>(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'group_unread_counts',
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => handleChange(payload.new)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+
+  /**
+   * Subscribe to members' read cursors for a group
+   *
+   * Listeners receive every member's cursor whenever one of them moves.
+   */
+  subscribeToReadCursors(groupId: string, onUpdate: (cursors: ReadCursor[]) => void): () => void {
+    if (!this.readCursorListeners.has(groupId)) {
+      this.readCursorListeners.set(groupId, []);
+    }
+    this.readCursorListeners.get(groupId)!.push(onUpdate);
+
+    if (!this.readCursorSubscriptions.has(groupId)) {
+      const channel = supabase
+        .channel(`read_cursors_${groupId}`)
+        .on<Tables<'group_members'>>(
+          'postgres_changes',
+          {
+            event: 'UPDATE',
+            schema: 'public',
+            table: 'group_members',
+            filter: `group_id=eq.${groupId}`,
+          },
+          (payload) => {
+            this.handleReadCursorUpdate(groupId, payload.new);
+          }
+        )
+        .subscribe((status) => {
+          // Reload after every (re)connect so missed updates are picked up
+          if (status === 'SUBSCRIBED') {
+            this.refreshReadCursors(groupId);
+          }
+        });
+
+      this.readCursorSubscriptions.set(groupId, channel);
+    } else {
+      const cache = this.readCursorCaches.get(groupId);
+      if (cache) {
+        onUpdate(Array.from(cache.values()));
+      }
+    }
+
+    // Return unsubscribe function
+    return () => {
+      const listeners = this.readCursorListeners.get(groupId) || [];
+      const index = listeners.indexOf(onUpdate);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+
+      if (listeners.length === 0) {
+        const channel = this.readCursorSubscriptions.get(groupId);
+        if (channel) {
+          supabase.removeChannel(channel);
+          this.readCursorSubscriptions.delete(groupId);
+        }
+        this.readCursorListeners.delete(groupId);
+        this.readCursorCaches.delete(groupId);
+      }
+    };
+  }
+
+  /**
+   * Subscribe to other members' typing state in a group
+   *
+   * Typing state is broadcast only, never stored. Sending is only possible
+   * while subscribed, so opting out stops both directions.
+   */
+  subscribeToTyping(groupId: string, onTyping: (users: ChatUser[]) => void): () => void {
+    if (!this.typingListeners.has(groupId)) {
+      this.typingListeners.set(groupId, []);
+    }
+    this.typingListeners.get(groupId)!.push(onTyping);
+
+    if (!this.typingChannels.has(groupId)) {
+      const channel = supabase
+        .channel(`typing_${groupId}`)
+        .on<TypingPayload>('broadcast', { event: 'typing' }, ({ payload }) => {
+          this.handleTypingEvent(groupId, payload);
+        })
+        .subscribe();
+
+      this.typingChannels.set(groupId, channel);
+    }
+
+    // Return unsubscribe function
+    return () => {
+      const listeners = this.typingListeners.get(groupId) || [];
+      const index = listeners.indexOf(onTyping);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+
+      if (listeners.length === 0) {
+        const channel = this.typingChannels.get(groupId);
+        if (channel) {
+          supabase.removeChannel(channel);
+          this.typingChannels.delete(groupId);
+        }
+        this.typingUsers.get(groupId)?.forEach(({ timeout }) => clearTimeout(timeout));
+        this.typingUsers.delete(groupId);
+        clearTimeout(this.typingIdleTimers.get(groupId));
+        this.typingIdleTimers.delete(groupId);
+        this.typingSentAt.delete(groupId);
+        this.typingListeners.delete(groupId);
+      }
+    };
+  }
+
+  /**
+   * Broadcast whether the current user is typing in a group
+   *
+   * Repeated "typing" calls are throttled, and an idle timer sends "stopped"
+   * if no further input arrives.
+   */
+  sendTypingState(groupId: string, user: ChatUser, isTyping: boolean): void {
+    const channel = this.typingChannels.get(groupId);
+    if (!channel) return;
+
+    clearTimeout(this.typingIdleTimers.get(groupId));
+    this.typingIdleTimers.delete(groupId);
+
+    if (isTyping) {
+      this.typingIdleTimers.set(
+        groupId,
+        setTimeout(() => this.sendTypingState(groupId, user, false), TYPING_IDLE_MS)
+      );
+
+      const now = Date.now();
+      if (now - (this.typingSentAt.get(groupId) || 0) < TYPING_THROTTLE_MS) return;
+      this.typingSentAt.set(groupId, now);
+    } else {
+      // Nothing to retract if typing was never announced
+      if (!this.typingSentAt.has(groupId)) return;
+      this.typingSentAt.delete(groupId);
+    }
+
+    const payload: TypingPayload = { userId: user.id, userName: user.name, isTyping };
+    channel.send({ type: 'broadcast', event: 'typing', payload });
+  }
+
+  /**
+   * Subscribe to members' online/away state in a group, announcing our own
+   *
+   * Members without a presence entry are offline.
+   */
+  subscribeToPresence(
+    groupId: string,
+    userId: string,
+    onPresence: (presence: Record<string, PresenceStatus>) => void
+  ): () => void {
+    const channel = supabase
+      .channel(`presence_${groupId}`, {
+        config: { presence: { key: userId } },
+      })
+      .on('presence', { event: 'sync' }, () => {
+        onPresence(this.mapPresenceState(channel.presenceState<PresenceMeta>()));
+      })
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          channel.track({ status: this.presenceStatus });
+        }
+      });
+
+    this.presenceChannels.set(groupId, channel);
+
+    return () => {
+      channel.untrack();
+      supabase.removeChannel(channel);
+      this.presenceChannels.delete(groupId);
+      this.touchLastSeen();
+    };
+  }
+
+  /**
+   * Update the presence state announced in every subscribed group
+   */
+  setPresenceStatus(status: 'online' | 'away'): void {
+    if (status === this.presenceStatus) return;
+
+    this.presenceStatus = status;
+    this.presenceChannels.forEach(channel => {
+      channel.track({ status });
+    });
+
+    if (status === 'away') {
+      this.touchLastSeen();
+    }
+  }
+
+  /**
+   * Record the current time as the user's last-seen time
+   */
+  async touchLastSeen(): Promise<void> {
+    try {
+      const { error } = await supabase.rpc('touch_last_seen');
+      if (error) {
+        console.error('Error updating last seen:', error);
+      }
+    } catch (error) {
+      console.error('Error updating last seen:', error);
+    }
+  }
+
+  /**
+   * Load app settings
+   */
+  async loadSettings(): Promise<GroupbySettings> {
+    // Settings stay on the device until there is a user preferences table
+    return StorageService.loadSettings();
+  }
+
+  /**
+   * Save app settings
+   */
+  async saveSettings(settings: GroupbySettings): Promise<void> {
+    await StorageService.saveSettings(settings);
+  }
+
+  // Helper methods
+
+  /**
+   * Fetch groups with members, last message and counts via a single RPC
+   */
+  private async fetchUserGroups(includeActive: boolean, archivedLimit: number, archivedOffset: number): Promise<Group[]> {
+    const { data: rows, error } = await supabase.rpc('get_user_groups', {
+      include_active: includeActive,
+      archived_limit: archivedLimit,
+      archived_offset: archivedOffset,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    const currentUserId = await this.getCurrentUserId();
+    return ((rows || []) as UserGroupRow[]).map(row => this.mapGroupRow(row, currentUserId));
+  }
+
+  private mapGroupRow(row: UserGroupRow, currentUserId?: string): Group {
+    const members: ChatUser[] = (row.members || []).map(member => ({
+      id: member.id,
+      name: member.display_name,
+      avatar: member.avatar_url || undefined,
+      lastSeenAt: member.last_seen_at ? new Date(member.last_seen_at) : undefined,
+      role: member.role,
+    }));
+
+    const lastMessage: Message | undefined = row.last_message
+      ? {
+          id: row.last_message.id,
+          text: row.last_message.content,
+          timestamp: new Date(row.last_message.created_at),
+          isOwnMessage: row.last_message.user_id === currentUserId,
+          sender: row.last_message.display_name || 'Unknown User',
+          status: 'sent',
+          isDeleted: !!row.last_message.deleted_at,
+        }
+      : undefined;
+
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description || undefined,
+      members,
+      createdAt: new Date(row.created_at),
+      createdBy: row.created_by || '',
+      lastMessage,
+      lastActivity: new Date(row.last_activity || row.updated_at),
+      unreadCount: row.unread_count || 0,
+      messages: [], // Messages will be loaded separately when needed
+      status: decodeGroupStatus(row.status),
+      settings: decodeGroupSettings(row),
+      messageCount: Number(row.message_count) || 0,
+      disbandedAt: row.disbanded_at ? new Date(row.disbanded_at) : undefined,
+      disbandReason: decodeDisbandReason(row.disband_reason),
+      archivedUntil: row.archived_until ? new Date(row.archived_until) : undefined,
+      inviteCode: row.invite_code || undefined,
+      inviteCodeExpiresAt: row.invite_code_expires_at ? new Date(row.invite_code_expires_at) : undefined,
+      extensionCount: row.extension_count || 0,
+      mutedUntil: decodeMutedUntil(row.muted_until),
+    };
+  }
+
+  private mapExtensionProposalRow(row: ExtensionProposalRow): ExtensionProposal {
+    return {
+      id: row.id,
+      groupId: row.group_id,
+      proposedBy: row.proposed_by || undefined,
+      extensionHours: row.extension_hours,
+      status: decodeExtensionProposalStatus(row.status),
+      createdAt: new Date(row.created_at),
+      resolvedAt: row.resolved_at ? new Date(row.resolved_at) : undefined,
+      votes: (row.group_extension_votes || []).map(vote => ({
+        userId: vote.user_id,
+        approve: vote.approve,
+      })),
+    };
+  }
+
+  private mapJoinRequestRow(row: JoinRequestRow): JoinRequest {
+    return {
+      id: row.id,
+      groupId: row.group_id,
+      userId: row.user_id,
+      userName: row.users?.display_name || undefined,
+      status: decodeJoinRequestStatus(row.status),
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private mapGroupInviteRow(row: Tables<'group_invites'>): GroupInvite {
+    return {
+      id: row.id,
+      groupId: row.group_id,
+      code: row.code,
+      createdBy: row.created_by || undefined,
+      createdAt: new Date(row.created_at),
+      expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+      maxUses: row.max_uses ?? undefined,
+      useCount: row.use_count || 0,
+      revoked: !!row.revoked,
+      isDefault: !!row.is_default,
+    };
+  }
+
+  private async getCurrentUserId(): Promise<string | undefined> {
+    const { data: { session } } = await supabase.auth.getSession();
+    return session?.user.id;
+  }
+
+  private mapMessageRow(row: MessageRow, currentUserId?: string): Message {
+    return {
+      id: row.id,
+      text: row.content,
+      timestamp: new Date(row.created_at),
+      isOwnMessage: row.user_id === currentUserId,
+      sender: row.users?.display_name || 'Unknown User',
+      // DB statuses (sent/delivered/read) all mean the server has the message;
+      // one still uploading its attachments is only visible to its sender
+      status: row.uploading ? 'pending' : 'sent',
+      deliveryTime: row.updated_at && !row.uploading ? new Date(row.updated_at) : undefined,
+      replyToId: row.reply_to || undefined,
+      editedAt: row.edited_at ? new Date(row.edited_at) : undefined,
+      isDeleted: !!row.deleted_at,
+      attachments: row.attachments?.map(att => this.mapAttachmentRow(att)),
+      reactions: (row.message_reactions || []).map(reaction => this.mapReactionRow(reaction)),
+    };
+  }
+
+  private mapAttachmentRow(row: AttachmentRow): Attachment {
+    return {
+      id: row.id,
+      type: row.file_type.startsWith('image/') ? 'image' : 'video',
+      uri: row.file_path,
+      fileSize: row.file_size,
+      width: row.metadata?.width,
+      height: row.metadata?.height,
+      duration: row.metadata?.duration,
+      thumbnailUri: row.thumbnail_path || undefined,
+    };
+  }
+
+  private mapReactionRow(row: ReactionRow): MessageReaction {
+    return {
+      emoji: row.emoji,
+      userId: row.user_id,
+      userName: row.users?.display_name || this.userNames.get(row.user_id),
+      timestamp: new Date(row.created_at),
+    };
+  }
+
+  private async getUserName(userId: string): Promise<string | undefined> {
+    if (this.userNames.has(userId)) {
+      return this.userNames.get(userId);
+    }
+
+    const { data } = await supabase
+      .from('users')
+      .select('display_name')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (data?.display_name) {
+      this.userNames.set(userId, data.display_name);
+    }
+    return data?.display_name;
+  }
+
+  private getLatestUpdatedAt(rows: { updated_at?: string }[], since?: string): string | undefined {
+    return rows.reduce<string | undefined>((latest, row) => {
+      if (!row.updated_at) return latest;
+      if (!latest || new Date(row.updated_at) > new Date(latest)) return row.updated_at;
+      return latest;
+    }, since);
+  }
+
+  private notifyMessageListeners(groupId: string): void {
+    const cache = this.messageCaches.get(groupId);
+    if (!cache) return;
+    this.messageListeners.get(groupId)?.forEach(listener => listener(cache.messages));
+  }
+
+  private upsertCachedMessage(groupId: string, message: Message, updatedAt?: string): void {
+    const cache = this.messageCaches.get(groupId);
+    if (!cache) return;
+
+    const others = cache.messages.filter(m => m.id !== message.id);
+    const index = others.findIndex(m => m.timestamp.getTime() > message.timestamp.getTime());
+    cache.messages = index === -1
+      ? [...others, message]
+      : [...others.slice(0, index), message, ...others.slice(index)];
+    cache.lastUpdatedAt = this.getLatestUpdatedAt([{ updated_at: updatedAt }], cache.lastUpdatedAt);
+  }
+
+  private async handleMessageInsert(groupId: string, row: Tables<'messages'>): Promise<void> {
+    if (!this.messageCaches.has(groupId)) return;
+
+    // Hydrate sender and attachments for this one message only
+    const { data, error } = await supabase
+      .from('messages')
+      .select(MESSAGE_SELECT)
+      .eq('id', row.id)
+      .is('message_reactions.removed_at', null)
+      .single()
+      .overrideTypes<MessageRow, { merge: false }>();
+
+    if (error || !data) {
+      console.error('Error hydrating new message:', error);
+      return;
+    }
+
+    const currentUserId = await this.getCurrentUserId();
+    this.upsertCachedMessage(groupId, this.mapMessageRow(data, currentUserId), data.updated_at);
+    this.notifyMessageListeners(groupId);
+  }
+
+  private handleMessageUpdate(groupId: string, row: Tables<'messages'>): void {
+    const cache = this.messageCaches.get(groupId);
+    if (!cache) return;
+
+    const existing = cache.messages.find(m => m.id === row.id);
+    if (!existing) {
+      // Someone else's message was just published with its attachments
+      if (!row.uploading) {
+        this.handleMessageInsert(groupId, row);
+      }
+      return;
+    }
+
+    // Sender and attachments do not change on update; keep the hydrated ones.
+    // reply_to is kept too, so a reply whose parent was removed still reads as a reply.
+    const isDeleted = !!row.deleted_at;
+    this.upsertCachedMessage(groupId, {
+      ...existing,
+      text: row.content,
+      // Publishing re-dates a held message
+      timestamp: new Date(row.created_at),
+      status: row.uploading ? 'pending' : 'sent',
+      deliveryTime: row.updated_at && !row.uploading ? new Date(row.updated_at) : existing.deliveryTime,
+      editedAt: row.edited_at ? new Date(row.edited_at) : undefined,
+      isDeleted,
+      // The delete trigger removes these server-side
+      attachments: isDeleted ? [] : existing.attachments,
+      reactions: isDeleted ? [] : existing.reactions,
+    }, row.updated_at);
+    this.notifyMessageListeners(groupId);
+  }
+
+  private removeCachedMessage(messageId: string): void {
+    for (const [groupId, cache] of this.messageCaches) {
+      if (!cache.messages.some(m => m.id === messageId)) continue;
+
+      cache.messages = cache.messages.filter(m => m.id !== messageId);
+      this.notifyMessageListeners(groupId);
+      return;
+    }
+  }
+
+  private handleAttachmentInsert(groupId: string, row: Tables<'attachments'>): void {
+    const cache = this.messageCaches.get(groupId);
+    if (!cache || !cache.messages.some(m => m.id === row.message_id)) return;
+
+    const attachment = this.mapAttachmentRow(row);
+    cache.messages = cache.messages.map(message => {
+      if (message.id !== row.message_id) return message;
+      const others = (message.attachments || []).filter(a => a.id !== attachment.id);
+      return { ...message, attachments: [...others, attachment] };
+    });
+    this.notifyMessageListeners(groupId);
+  }
+
+  private async handleReactionInsert(groupId: string, row: Tables<'message_reactions'>): Promise<void> {
+    const cache = this.messageCaches.get(groupId);
+    if (!cache || !cache.messages.some(m => m.id === row.message_id)) return;
+
+    // Caches the name for mapReactionRow to pick up
+    await this.getUserName(row.user_id);
+    const reaction = this.mapReactionRow(row);
+
+    cache.messages = cache.messages.map(message => {
+      if (message.id !== row.message_id) return message;
+      const others = (message.reactions || []).filter(
+        r => !(r.userId === reaction.userId && r.emoji === reaction.emoji)
+      );
+      return { ...message, reactions: [...others, reaction] };
+    });
+    this.notifyMessageListeners(groupId);
+  }
+
+  private handleReactionRemove(groupId: string, row: Tables<'message_reactions'>): void {
+    const cache = this.messageCaches.get(groupId);
+    if (!cache || !cache.messages.some(m => m.id === row.message_id)) return;
+
+    cache.messages = cache.messages.map(message => {
+      if (message.id !== row.message_id) return message;
+      return {
+        ...message,
+        reactions: (message.reactions || []).filter(
+          r => !(r.userId === row.user_id && r.emoji === row.emoji)
+        ),
+      };
+    });
+    this.notifyMessageListeners(groupId);
+  }
+
+  /**
+   * Fetch whatever changed while the realtime channel was disconnected
+   *
+   * Reaction and attachment changes bump their message's updated_at (see
+   * touch_message_updated_at in schema.sql) and deletions leave tombstones,
+   * so the messages changed since the last sync carry everything we missed.
+   */
+  private async catchUpMessages(groupId: string): Promise<void> {
+    const cache = this.messageCaches.get(groupId);
+    if (!cache) return; // Not seeded yet; loadMessages will fill it
+
+    try {
+      let query = supabase
+        .from('messages')
+        .select(MESSAGE_SELECT)
+        .eq('group_id', groupId)
+        .is('message_reactions.removed_at', null)
+        .order('created_at', { ascending: true });
+
+      if (cache.lastUpdatedAt) {
+        query = query.gte('updated_at', cache.lastUpdatedAt);
+      }
+
+      const { data: changedRows, error } = await query.overrideTypes<MessageRow[], { merge: false }>();
+
+      if (error) {
+        console.error('Error catching up messages:', error);
+        return;
+      }
+      if (!changedRows || changedRows.length === 0) return;
+
+      const currentUserId = await this.getCurrentUserId();
+      for (const row of changedRows) {
+        this.upsertCachedMessage(groupId, this.mapMessageRow(row, currentUserId), row.updated_at);
+      }
+
+      this.notifyMessageListeners(groupId);
+    } catch (error) {
+      console.error('Error catching up messages:', error);
+    }
+  }
+
+  private mapReadCursorRow(row: ReadCursorRow): ReadCursor {
+    return {
+      userId: row.user_id,
+      lastReadMessageId: row.last_read_message_id || undefined,
+      lastReadAt: row.last_read_at ? new Date(row.last_read_at) : undefined,
+    };
+  }
+
+  private notifyReadCursorListeners(groupId: string): void {
+    const cache = this.readCursorCaches.get(groupId);
+    if (!cache) return;
+    const cursors = Array.from(cache.values());
+    this.readCursorListeners.get(groupId)?.forEach(listener => listener(cursors));
+  }
+
+  private async refreshReadCursors(groupId: string): Promise<void> {
+    const cursors = await this.loadReadCursors(groupId);
+    if (!this.readCursorListeners.has(groupId)) return;
+
+    this.readCursorCaches.set(groupId, new Map(cursors.map(cursor => [cursor.userId, cursor])));
+    this.notifyReadCursorListeners(groupId);
+  }
+
+  private handleReadCursorUpdate(groupId: string, row: Tables<'group_members'>): void {
+    const cache = this.readCursorCaches.get(groupId);
+    if (!cache) return;
+
+    // Other membership changes, such as muting, arrive here too; only cursor moves matter
+    const cursor = this.mapReadCursorRow(row);
+    if (cache.get(row.user_id)?.lastReadMessageId === cursor.lastReadMessageId) return;
+
+    cache.set(row.user_id, cursor);
+    this.notifyReadCursorListeners(groupId);
+  }
+
+  private mapPresenceState(state: RealtimePresenceState<PresenceMeta>): Record<string, PresenceStatus> {
+    const presence: Record<string, PresenceStatus> = {};
+    for (const [userId, metas] of Object.entries(state)) {
+      // A member counts as online if any of their devices is in the foreground
+      presence[userId] = metas.some(meta => meta.status === 'online') ? 'online' : 'away';
+    }
+    return presence;
+  }
+
+  private handleTypingEvent(groupId: string, payload: TypingPayload): void {
+    if (!this.typingUsers.has(groupId)) {
+      this.typingUsers.set(groupId, new Map());
+    }
+    const typists = this.typingUsers.get(groupId)!;
+
+    const existing = typists.get(payload.userId);
+    if (existing) {
+      clearTimeout(existing.timeout);
+      typists.delete(payload.userId);
+    }
+
+    if (payload.isTyping) {
+      typists.set(payload.userId, {
+        user: { id: payload.userId, name: payload.userName },
+        timeout: setTimeout(() => {
+          typists.delete(payload.userId);
+          this.notifyTypingListeners(groupId);
+        }, TYPING_TIMEOUT_MS),
+      });
+    }
+
+    this.notifyTypingListeners(groupId);
+  }
+
+  private notifyTypingListeners(groupId: string): void {
+    const users = Array.from(this.typingUsers.get(groupId)?.values() || []).map(({ user }) => user);
+    this.typingListeners.get(groupId)?.forEach(listener => listener(users));
   }
 
   private async handleGroupUpdate(groupId: string, payload: any): Promise<void> {
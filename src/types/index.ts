@@ -6,6 +6,8 @@ export type MessageStatus =
 
 export type AttachmentType = "image" | "video";
 
+export type AttachmentUploadStatus = "uploading" | "failed";
+
 export interface Attachment {
   id: string;
   uri: string;
@@ -16,11 +18,14 @@ export interface Attachment {
   height?: number;
   duration?: number; // For videos, in seconds
   thumbnailUri?: string; // For video thumbnails
+  uploadStatus?: AttachmentUploadStatus; // Unset once the server has the file
+  uploadProgress?: number; // 0-1 while uploading
 }
 
 export interface MessageReaction {
   emoji: string;
   userId: string;
+  userName?: string; // Display name of the reacting member
   timestamp: Date;
 }
 
@@ -34,14 +39,32 @@ export interface Message {
   deliveryTime?: Date;
   reactions?: MessageReaction[];
   attachments?: Attachment[]; // Media attachments
+  replyToId?: string; // Parent message when this is a reply
+  editedAt?: Date;
+  isDeleted?: boolean; // Tombstone: content and media have been removed
+}
+
+export interface MessageEdit {
+  text: string; // Content before the edit
+  editedAt: Date;
+}
+
+export interface ReadCursor {
+  userId: string;
+  lastReadMessageId?: string;
+  lastReadAt?: Date; // Timestamp of the last message the member has seen
 }
 
 export interface ChatUser {
   id: string;
   name: string;
   avatar?: string;
+  lastSeenAt?: Date; // Unset when the member hides it
+  role?: "admin" | "member"; // Set on Group.members
 }
 
+export type PresenceStatus = "online" | "away" | "offline";
+
 export type Theme = "light" | "dark";
 
 export type GroupStatus = "active" | "expiring_soon" | "archived";
@@ -59,13 +82,18 @@ export type GroupLifespan =
   | "7_days"
   | "custom";
 
+export type ExtensionApproval = "quorum" | "admin";
+
 export interface GroupSettings {
   lifespan: GroupLifespan;
-  expirationTime: Date; // Absolute time when group will disband
+  expirationTime?: Date; // Absolute time when group will disband; unset if it never expires
   inactivityThreshold?: number; // Days without activity before auto-disband
   messageLimit?: number; // Max messages before auto-disband
   warnBeforeExpiry: boolean; // Send notification before group expires
   allowExtension: boolean; // Allow members to extend group lifetime
+  extensionApproval?: ExtensionApproval; // Who decides on extension proposals
+  extensionQuorum?: number; // Share of members (0-1) that must approve in quorum mode
+  requireApproval?: boolean; // Admins approve each join request
 }
 
 export interface Group {
@@ -88,6 +116,69 @@ export interface Group {
   archivedUntil?: Date; // When archived group will be permanently deleted
   inviteCode?: string; // Unique code for joining the group
   inviteCodeExpiresAt?: Date; // When the invite code expires
+  extensionCount?: number; // Times the group's lifetime has been extended
+  mutedUntil?: Date; // No push notifications for this group until then
+}
+
+// What a non-member can see about a group from its invite code
+export interface GroupInvitePreview {
+  id: string;
+  name: string;
+  memberCount: number;
+  expirationTime?: Date;
+  isMember: boolean;
+  requireApproval: boolean;
+  hasPendingRequest: boolean;
+}
+
+// Outcome of joining with an invite code. Every kind of bad code is reported
+// as 'invalid' so codes can't be probed.
+export type JoinGroupResult =
+  | { status: "joined"; group: Group }
+  | { status: "pending"; groupId: string } // Waiting for an admin to approve
+  | { status: "invalid" | "rate_limited" | "failed" };
+
+// One of a group's invite codes, as listed to admins
+export interface GroupInvite {
+  id: string;
+  groupId: string;
+  code: string;
+  createdBy?: string;
+  createdAt: Date;
+  expiresAt?: Date; // Never expires when unset
+  maxUses?: number; // Unlimited when unset
+  useCount: number;
+  revoked: boolean;
+  isDefault: boolean; // The code shown to every member
+}
+
+export type ExtensionProposalStatus = "open" | "approved" | "rejected" | "expired";
+
+export interface ExtensionVote {
+  userId: string;
+  approve: boolean;
+}
+
+export interface ExtensionProposal {
+  id: string;
+  groupId: string;
+  proposedBy?: string;
+  extensionHours: number;
+  status: ExtensionProposalStatus;
+  createdAt: Date;
+  resolvedAt?: Date;
+  votes: ExtensionVote[];
+}
+
+export type JoinRequestStatus = "pending" | "approved" | "rejected";
+
+export interface JoinRequest {
+  id: string;
+  groupId: string;
+  userId: string;
+  userName?: string;
+  status: JoinRequestStatus;
+  createdAt: Date;
 }
 
 export interface UserProfile {
@@ -103,7 +194,9 @@ export interface GroupbySettings {
   enableTypingIndicator: boolean;
   defaultGroupLifespan: GroupLifespan;
   showExpirationWarnings: boolean;
+  expiryWarningMinutes: number[]; // Offsets before expiry at which to notify
   archiveRetentionDays: number; // How long to keep archived groups
+  mediaCacheLimitMB: number; // Size cap for media cached on the device
   autoJoinSuggestions: boolean; // Suggest groups based on interests
   currentUser?: UserProfile; // Current user profile
 }
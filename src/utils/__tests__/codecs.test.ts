@@ -0,0 +1,232 @@
+import {
+  DbDisbandReason,
+  DbGroupStatus,
+  LIFESPAN_HOURS,
+  MUTED_FOREVER,
+  decodeDisbandReason,
+  decodeExtensionApproval,
+  decodeExtensionProposalStatus,
+  decodeGroupSettings,
+  decodeGroupStatus,
+  decodeJoinRequestStatus,
+  decodeLifespan,
+  decodeMutedUntil,
+  encodeDisbandReason,
+  encodeGroupStatus,
+  encodeLifespan,
+  encodeMutedUntil,
+  parseLifespan,
+} from '../codecs';
+import { DisbandReason, GroupLifespan, GroupStatus } from '../../types';
+
+const GROUP_STATUSES: [DbGroupStatus, GroupStatus][] = [
+  ['active', 'active'],
+  ['expiring', 'expiring_soon'],
+  ['archived', 'archived'],
+];
+
+const DISBAND_REASONS: [DbDisbandReason, DisbandReason][] = [
+  ['expired', 'time_expired'],
+  ['inactive', 'inactivity'],
+  ['message_limit', 'message_limit'],
+  ['manual', 'manual'],
+];
+
+const FIXED_LIFESPANS = Object.keys(LIFESPAN_HOURS) as Exclude<GroupLifespan, 'custom'>[];
+
+const createdAt = new Date('2024-03-01T12:00:00.000Z');
+
+let warn: jest.SpyInstance;
+
+beforeEach(() => {
+  warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  warn.mockRestore();
+});
+
+describe('group status', () => {
+  it.each(GROUP_STATUSES)('decodes %s as %s', (db, client) => {
+    expect(decodeGroupStatus(db)).toBe(client);
+  });
+
+  it.each(GROUP_STATUSES)('encodes %s from %s', (db, client) => {
+    expect(encodeGroupStatus(client)).toBe(db);
+  });
+
+  it.each(GROUP_STATUSES)('round-trips %s', (_db, client) => {
+    expect(decodeGroupStatus(encodeGroupStatus(client))).toBe(client);
+  });
+
+  it('falls back to active for unknown values', () => {
+    expect(decodeGroupStatus('disbanded')).toBe('active');
+    expect(decodeGroupStatus(null)).toBe('active');
+    expect(decodeGroupStatus('toString')).toBe('active');
+    expect(warn).toHaveBeenCalled();
+  });
+});
+
+describe('disband reason', () => {
+  it.each(DISBAND_REASONS)('decodes %s as %s', (db, client) => {
+    expect(decodeDisbandReason(db)).toBe(client);
+  });
+
+  it.each(DISBAND_REASONS)('encodes %s from %s', (db, client) => {
+    expect(encodeDisbandReason(client)).toBe(db);
+  });
+
+  it.each(DISBAND_REASONS)('round-trips %s', (_db, client) => {
+    expect(decodeDisbandReason(encodeDisbandReason(client))).toBe(client);
+  });
+
+  it('treats a missing reason as none without warning', () => {
+    expect(decodeDisbandReason(null)).toBeUndefined();
+    expect(decodeDisbandReason(undefined)).toBeUndefined();
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('drops unknown reasons', () => {
+    expect(decodeDisbandReason('vanished')).toBeUndefined();
+    expect(warn).toHaveBeenCalled();
+  });
+});
+
+describe('lifespan', () => {
+  it.each(FIXED_LIFESPANS)('round-trips %s through expires_at', lifespan => {
+    const expiresAt = encodeLifespan(lifespan, createdAt);
+    expect(decodeLifespan(expiresAt, createdAt.toISOString())).toBe(lifespan);
+  });
+
+  it.each(FIXED_LIFESPANS)('sets %s to the matching number of hours', lifespan => {
+    const expiresAt = encodeLifespan(lifespan, createdAt)!;
+    expect(new Date(expiresAt).getTime() - createdAt.getTime()).toBe(
+      LIFESPAN_HOURS[lifespan] * 60 * 60 * 1000
+    );
+  });
+
+  it('tolerates clock skew between client and server', () => {
+    const serverCreatedAt = new Date(createdAt.getTime() + 30 * 1000).toISOString();
+    expect(decodeLifespan(encodeLifespan('24_hours', createdAt), serverCreatedAt)).toBe('24_hours');
+  });
+
+  it('uses the custom expiration as is', () => {
+    const custom = new Date('2024-03-05T08:30:00.000Z');
+    const expiresAt = encodeLifespan('custom', createdAt, custom);
+    expect(expiresAt).toBe(custom.toISOString());
+    expect(decodeLifespan(expiresAt, createdAt.toISOString())).toBe('custom');
+  });
+
+  it('decodes a missing expiry as custom', () => {
+    expect(encodeLifespan('custom', createdAt)).toBeNull();
+    expect(decodeLifespan(null, createdAt.toISOString())).toBe('custom');
+    expect(decodeLifespan(undefined, createdAt.toISOString())).toBe('custom');
+  });
+
+  it.each(FIXED_LIFESPANS)('parses stored %s', lifespan => {
+    expect(parseLifespan(lifespan)).toBe(lifespan);
+  });
+
+  it('parses unknown stored values as custom', () => {
+    expect(parseLifespan('custom')).toBe('custom');
+    expect(parseLifespan('2_weeks')).toBe('custom');
+    expect(parseLifespan(undefined)).toBe('custom');
+  });
+});
+
+describe('extension and join request values', () => {
+  it.each(['quorum', 'admin'])('decodes extension approval %s', approval => {
+    expect(decodeExtensionApproval(approval)).toBe(approval);
+  });
+
+  it('falls back to quorum approval', () => {
+    expect(decodeExtensionApproval('owner')).toBe('quorum');
+    expect(decodeExtensionApproval(null)).toBe('quorum');
+  });
+
+  it.each(['open', 'approved', 'rejected', 'expired'])('decodes proposal status %s', status => {
+    expect(decodeExtensionProposalStatus(status)).toBe(status);
+  });
+
+  it('treats unknown proposal statuses as expired', () => {
+    expect(decodeExtensionProposalStatus('withdrawn')).toBe('expired');
+    expect(warn).toHaveBeenCalled();
+  });
+
+  it.each(['pending', 'approved', 'rejected'])('decodes join request status %s', status => {
+    expect(decodeJoinRequestStatus(status)).toBe(status);
+  });
+
+  it('treats unknown join request statuses as rejected', () => {
+    expect(decodeJoinRequestStatus('cancelled')).toBe('rejected');
+    expect(warn).toHaveBeenCalled();
+  });
+});
+
+describe('muted until', () => {
+  it("decodes 'infinity' as MUTED_FOREVER", () => {
+    expect(decodeMutedUntil('infinity')).toEqual(MUTED_FOREVER);
+  });
+
+  it("encodes MUTED_FOREVER as 'infinity'", () => {
+    expect(encodeMutedUntil(MUTED_FOREVER)).toBe('infinity');
+  });
+
+  it('round-trips a muted-until time', () => {
+    const until = new Date('2024-03-02T09:15:00.000Z');
+    expect(decodeMutedUntil(encodeMutedUntil(until))).toEqual(until);
+  });
+
+  it('round-trips forever', () => {
+    expect(decodeMutedUntil(encodeMutedUntil(MUTED_FOREVER))).toEqual(MUTED_FOREVER);
+  });
+
+  it('treats a missing value as not muted', () => {
+    expect(decodeMutedUntil(null)).toBeUndefined();
+    expect(encodeMutedUntil(null)).toBeNull();
+  });
+});
+
+describe('decodeGroupSettings', () => {
+  const row = {
+    created_at: createdAt.toISOString(),
+    expires_at: encodeLifespan('3_days', createdAt)!,
+    inactivity_threshold: 12,
+    message_limit: null,
+    warn_before_expiry: false,
+    allow_extension: true,
+    extension_approval: 'admin' as const,
+    extension_quorum: '0.5',
+    require_approval: true,
+  };
+
+  it('decodes a group row', () => {
+    expect(decodeGroupSettings(row)).toEqual({
+      lifespan: '3_days',
+      expirationTime: new Date(row.expires_at),
+      inactivityThreshold: 12,
+      messageLimit: undefined,
+      warnBeforeExpiry: false,
+      allowExtension: true,
+      extensionApproval: 'admin',
+      extensionQuorum: 0.5,
+      requireApproval: true,
+    });
+  });
+
+  it('fills in defaults for missing columns', () => {
+    const settings = decodeGroupSettings({
+      ...row,
+      expires_at: null,
+      warn_before_expiry: null,
+      extension_approval: null,
+      extension_quorum: null,
+    });
+
+    expect(settings.lifespan).toBe('custom');
+    expect(settings.expirationTime).toBeUndefined();
+    expect(settings.warnBeforeExpiry).toBe(true);
+    expect(settings.extensionApproval).toBe('quorum');
+    expect(settings.extensionQuorum).toBeUndefined();
+  });
+});
@@ -0,0 +1,204 @@
+import {
+  DisbandReason,
+  ExtensionApproval,
+  ExtensionProposalStatus,
+  GroupLifespan,
+  GroupSettings,
+  GroupStatus,
+  JoinRequestStatus,
+} from '../types';
+import { Database } from './supabase';
+
+// Conversions between database rows and the client types in src/types.
+// The maps are typed as Records so that adding a value on either side
+// without a mapping fails to compile.
+
+type GroupRow = Database['public']['Tables']['groups']['Row'];
+
+export type DbGroupStatus = GroupRow['status'];
+export type DbDisbandReason = NonNullable<GroupRow['disband_reason']>;
+
+const GROUP_STATUS_FROM_DB: Record<DbGroupStatus, GroupStatus> = {
+  active: 'active',
+  expiring: 'expiring_soon',
+  archived: 'archived',
+};
+
+const GROUP_STATUS_TO_DB: Record<GroupStatus, DbGroupStatus> = {
+  active: 'active',
+  expiring_soon: 'expiring',
+  archived: 'archived',
+};
+
+const DISBAND_REASON_FROM_DB: Record<DbDisbandReason, DisbandReason> = {
+  expired: 'time_expired',
+  inactive: 'inactivity',
+  message_limit: 'message_limit',
+  manual: 'manual',
+};
+
+const DISBAND_REASON_TO_DB: Record<DisbandReason, DbDisbandReason> = {
+  time_expired: 'expired',
+  inactivity: 'inactive',
+  message_limit: 'message_limit',
+  manual: 'manual',
+};
+
+const EXTENSION_APPROVAL: Record<ExtensionApproval, true> = {
+  quorum: true,
+  admin: true,
+};
+
+const EXTENSION_PROPOSAL_STATUS: Record<ExtensionProposalStatus, true> = {
+  open: true,
+  approved: true,
+  rejected: true,
+  expired: true,
+};
+
+const JOIN_REQUEST_STATUS: Record<JoinRequestStatus, true> = {
+  pending: true,
+  approved: true,
+  rejected: true,
+};
+
+// Fixed lifespans; 'custom' groups carry their own expires_at
+export const LIFESPAN_HOURS: Record<Exclude<GroupLifespan, 'custom'>, number> = {
+  '1_hour': 1,
+  '24_hours': 24,
+  '3_days': 72,
+  '7_days': 168,
+};
+
+// expires_at is computed on the client and created_at on the server
+const LIFESPAN_TOLERANCE_MS = 60 * 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const lookup = <K extends string, V>(map: Record<K, V>, value: unknown): V | undefined =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(map, value)
+    ? map[value as K]
+    : undefined;
+
+export const decodeGroupStatus = (value: unknown): GroupStatus => {
+  const status = lookup(GROUP_STATUS_FROM_DB, value);
+  if (!status) {
+    console.warn('Unknown group status from database:', value);
+    return 'active';
+  }
+  return status;
+};
+
+export const encodeGroupStatus = (status: GroupStatus): DbGroupStatus =>
+  GROUP_STATUS_TO_DB[status];
+
+export const decodeDisbandReason = (value: unknown): DisbandReason | undefined => {
+  if (value === null || value === undefined) return undefined;
+
+  const reason = lookup(DISBAND_REASON_FROM_DB, value);
+  if (!reason) {
+    console.warn('Unknown disband reason from database:', value);
+  }
+  return reason;
+};
+
+export const encodeDisbandReason = (reason: DisbandReason): DbDisbandReason =>
+  DISBAND_REASON_TO_DB[reason];
+
+/**
+ * Parse a stored lifespan value, e.g. from settings, falling back to 'custom'
+ */
+export const parseLifespan = (value: unknown): GroupLifespan =>
+  lookup(LIFESPAN_HOURS, value) !== undefined ? (value as GroupLifespan) : 'custom';
+
+/**
+ * Compute expires_at for a new group
+ */
+export const encodeLifespan = (
+  lifespan: GroupLifespan,
+  createdAt: Date,
+  customExpiration?: Date
+): string | null => {
+  if (lifespan === 'custom') {
+    return customExpiration ? customExpiration.toISOString() : null;
+  }
+  return new Date(createdAt.getTime() + LIFESPAN_HOURS[lifespan] * HOUR_MS).toISOString();
+};
+
+/**
+ * Recover the lifespan a group was created with from its timestamps
+ */
+export const decodeLifespan = (expiresAt: string | null | undefined, createdAt: string): GroupLifespan => {
+  if (!expiresAt) return 'custom';
+
+  const duration = new Date(expiresAt).getTime() - new Date(createdAt).getTime();
+  const match = (Object.keys(LIFESPAN_HOURS) as Exclude<GroupLifespan, 'custom'>[]).find(
+    lifespan => Math.abs(duration - LIFESPAN_HOURS[lifespan] * HOUR_MS) <= LIFESPAN_TOLERANCE_MS
+  );
+  return match || 'custom';
+};
+
+export const decodeExtensionApproval = (value: unknown): ExtensionApproval =>
+  lookup(EXTENSION_APPROVAL, value) ? (value as ExtensionApproval) : 'quorum';
+
+export const decodeExtensionProposalStatus = (value: unknown): ExtensionProposalStatus => {
+  if (!lookup(EXTENSION_PROPOSAL_STATUS, value)) {
+    console.warn('Unknown extension proposal status from database:', value);
+    return 'expired';
+  }
+  return value as ExtensionProposalStatus;
+};
+
+export const decodeJoinRequestStatus = (value: unknown): JoinRequestStatus => {
+  if (!lookup(JOIN_REQUEST_STATUS, value)) {
+    console.warn('Unknown join request status from database:', value);
+    return 'rejected';
+  }
+  return value as JoinRequestStatus;
+};
+
+// Postgres 'infinity' (muted for good) has no Date equivalent; use the
+// latest representable Date instead
+export const MUTED_FOREVER = new Date(8.64e15);
+
+export const decodeMutedUntil = (value: unknown): Date | undefined => {
+  if (typeof value !== 'string') return undefined;
+  return value === 'infinity' ? MUTED_FOREVER : new Date(value);
+};
+
+export const encodeMutedUntil = (until: Date | null): string | null => {
+  if (!until) return null;
+  return until.getTime() >= MUTED_FOREVER.getTime() ? 'infinity' : until.toISOString();
+};
+
+type Nullable<T> = { [K in keyof T]: T[K] | null };
+
+// The groups columns behind GroupSettings, as selected or returned by RPCs
+export type GroupSettingsRow = Pick<GroupRow, 'created_at'> &
+  Nullable<
+    Pick<
+      GroupRow,
+      | 'expires_at'
+      | 'inactivity_threshold'
+      | 'message_limit'
+      | 'warn_before_expiry'
+      | 'allow_extension'
+      | 'extension_approval'
+      | 'require_approval'
+    >
+  > & {
+    extension_quorum?: GroupRow['extension_quorum'] | string | null;
+  };
+
+export const decodeGroupSettings = (row: GroupSettingsRow): GroupSettings => ({
+  lifespan: decodeLifespan(row.expires_at, row.created_at),
+  expirationTime: row.expires_at ? new Date(row.expires_at) : undefined,
+  inactivityThreshold: row.inactivity_threshold ?? undefined,
+  messageLimit: row.message_limit ?? undefined,
+  warnBeforeExpiry: row.warn_before_expiry ?? true,
+  allowExtension: !!row.allow_extension,
+  extensionApproval: decodeExtensionApproval(row.extension_approval),
+  // NUMERIC columns arrive as strings
+  extensionQuorum: row.extension_quorum != null ? Number(row.extension_quorum) : undefined,
+  requireApproval: !!row.require_approval,
+});
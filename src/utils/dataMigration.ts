@@ -2,6 +2,9 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Group, Message, ChatUser, GroupbySettings } from '../types';
 import { supabaseService } from '../services/supabaseService';
 import { authService } from '../services/authService';
+import { DEFAULT_EXPIRY_WARNING_MINUTES } from '../services/notificationService';
+import { DEFAULT_MEDIA_CACHE_LIMIT_MB } from '../services/mediaStorage';
+import { parseLifespan } from './codecs';
 
 // Legacy storage keys from the old system
 const LEGACY_KEYS = {
@@ -131,9 +134,11 @@ class DataMigrationService {
         theme: legacySettings.theme || 'light',
         enableHaptics: legacySettings.enableHaptics ?? true,
         enableTypingIndicator: legacySettings.enableTypingIndicator ?? true,
-        defaultGroupLifespan: this.convertLifespan(legacySettings.defaultGroupLifespan),
+        defaultGroupLifespan: parseLifespan(legacySettings.defaultGroupLifespan),
         showExpirationWarnings: legacySettings.showExpirationWarnings ?? true,
+        expiryWarningMinutes: legacySettings.expiryWarningMinutes || DEFAULT_EXPIRY_WARNING_MINUTES,
         archiveRetentionDays: legacySettings.archiveRetentionDays || 30,
+        mediaCacheLimitMB: DEFAULT_MEDIA_CACHE_LIMIT_MB,
         autoJoinSuggestions: legacySettings.autoJoinSuggestions ?? false,
       };
 
@@ -263,24 +268,6 @@ class DataMigrationService {
     }
   }
 
-  /**
-   * Convert legacy lifespan format to new format
-   */
-  private convertLifespan(legacyLifespan: string): 'hour' | 'day' | 'week' | 'month' | 'custom' {
-    switch (legacyLifespan) {
-      case '1_hour':
-        return 'hour';
-      case '24_hours':
-        return 'day';
-      case '7_days':
-        return 'week';
-      case '30_days':
-        return 'month';
-      default:
-        return 'custom';
-    }
-  }
-
   /**
    * Create anonymous user for migration if needed
    */
@@ -0,0 +1,50 @@
+// Invite links: groupby://join/ABC123 and https://groupby.app/join/ABC123.
+// The scheme and host must match app.json (scheme, associatedDomains and
+// intentFilters).
+
+export const INVITE_LINK_SCHEME = 'groupby';
+export const INVITE_LINK_HOST = 'groupby.app';
+
+// Must match generate_invite_code() in supabase/schema.sql. Look-alike
+// characters (0/O, 1/I/L) are left out so codes can be read aloud.
+export const INVITE_CODE_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+export const INVITE_CODE_LENGTH = 8;
+
+export const INVITE_LINK_PREFIXES = [
+  `${INVITE_LINK_SCHEME}://`,
+  `https://${INVITE_LINK_HOST}`,
+];
+
+/**
+ * Strip separators and whitespace that sneak in when codes are copied
+ */
+export const normalizeInviteCode = (value: string): string =>
+  value.replace(/[^A-Za-z0-9]/g, '').toUpperCase();
+
+export const isValidInviteCode = (code: string): boolean =>
+  code.length === INVITE_CODE_LENGTH &&
+  [...code].every(char => INVITE_CODE_ALPHABET.includes(char));
+
+/**
+ * Split a code in half for display, e.g. ABCD-EFGH
+ */
+export const formatInviteCode = (code: string): string =>
+  code.length === INVITE_CODE_LENGTH
+    ? `${code.slice(0, INVITE_CODE_LENGTH / 2)}-${code.slice(INVITE_CODE_LENGTH / 2)}`
+    : code;
+
+/**
+ * Shareable https link for an invite code (opens the app when installed)
+ */
+export const buildInviteLink = (code: string): string =>
+  `https://${INVITE_LINK_HOST}/join/${code}`;
+
+/**
+ * Extract the invite code from a link in either form, or from a bare code
+ */
+export const parseInviteLink = (value: string): string | null => {
+  const trimmed = value.trim();
+  const match = trimmed.match(/\/join\/([A-Za-z0-9-]+)\/?(?:[?#].*)?$/);
+  const code = normalizeInviteCode(match ? match[1] : trimmed);
+  return isValidInviteCode(code) ? code : null;
+};
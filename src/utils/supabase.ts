@@ -8,6 +8,11 @@ if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
   throw new Error('Missing Supabase environment variables. Please check your .env file.');
 }
 
+// Resumable (TUS) upload endpoint. EXPO_PUBLIC_STORAGE_UPLOAD_URL can point it
+// at a local stand-in such as supabase/mock_storage_server.js.
+export const STORAGE_UPLOAD_URL =
+  process.env.EXPO_PUBLIC_STORAGE_UPLOAD_URL || `${SUPABASE_URL}/storage/v1/upload/resumable`;
+
 // Create Supabase client with configuration optimized for React Native
 export const supabase: SupabaseClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
   auth: {
@@ -36,6 +41,8 @@ export interface Database {
           email?: string;
           display_name: string;
           avatar_url?: string;
+          last_seen_at?: string;
+          hide_last_seen: boolean;
           created_at: string;
           updated_at: string;
         };
@@ -44,6 +51,8 @@ export interface Database {
           email?: string;
           display_name: string;
           avatar_url?: string;
+          last_seen_at?: string;
+          hide_last_seen?: boolean;
           created_at?: string;
           updated_at?: string;
         };
@@ -52,6 +61,8 @@ export interface Database {
           email?: string;
           display_name?: string;
           avatar_url?: string;
+          last_seen_at?: string;
+          hide_last_seen?: boolean;
           updated_at?: string;
         };
       };
@@ -67,11 +78,15 @@ export interface Database {
           inactivity_threshold?: number;
           message_limit?: number;
           status: 'active' | 'expiring' | 'archived';
-          invite_code?: string;
-          invite_code_expires_at?: string;
           disbanded_at?: string;
           disband_reason?: 'expired' | 'inactive' | 'message_limit' | 'manual';
           archived_until?: string;
+          warn_before_expiry: boolean;
+          allow_extension: boolean;
+          extension_approval: 'quorum' | 'admin';
+          extension_quorum: number;
+          extension_count: number;
+          require_approval: boolean;
         };
         Insert: {
           id?: string;
@@ -84,11 +99,14 @@ export interface Database {
           inactivity_threshold?: number;
           message_limit?: number;
           status?: 'active' | 'expiring' | 'archived';
-          invite_code?: string;
-          invite_code_expires_at?: string;
           disbanded_at?: string;
           disband_reason?: 'expired' | 'inactive' | 'message_limit' | 'manual';
           archived_until?: string;
+          warn_before_expiry?: boolean;
+          allow_extension?: boolean;
+          extension_approval?: 'quorum' | 'admin';
+          extension_quorum?: number;
+          require_approval?: boolean;
         };
         Update: {
           id?: string;
@@ -99,11 +117,46 @@ export interface Database {
           inactivity_threshold?: number;
           message_limit?: number;
           status?: 'active' | 'expiring' | 'archived';
-          invite_code?: string;
-          invite_code_expires_at?: string;
           disbanded_at?: string;
           disband_reason?: 'expired' | 'inactive' | 'message_limit' | 'manual';
           archived_until?: string;
+          warn_before_expiry?: boolean;
+          allow_extension?: boolean;
+          extension_approval?: 'quorum' | 'admin';
+          extension_quorum?: number;
+          require_approval?: boolean;
+        };
+      };
+      group_invites: {
+        Row: {
+          id: string;
+          group_id: string;
+          code: string;
+          created_by?: string;
+          created_at: string;
+          expires_at?: string;
+          max_uses?: number;
+          use_count: number;
+          revoked: boolean;
+          is_default: boolean;
+        };
+        Insert: {
+          id?: string;
+          group_id: string;
+          code: string;
+          created_by?: string;
+          created_at?: string;
+          expires_at?: string;
+          max_uses?: number;
+          use_count?: number;
+          revoked?: boolean;
+          is_default?: boolean;
+        };
+        Update: {
+          expires_at?: string;
+          max_uses?: number;
+          use_count?: number;
+          revoked?: boolean;
         };
       };
       group_members: {
@@ -112,19 +165,63 @@ export interface Database {
           user_id: string;
           joined_at: string;
           role: 'admin' | 'member';
-          unread_count: number;
+          last_read_message_id?: string;
+          last_read_at?: string;
+          muted_until?: string;
+          joined_via_invite?: string;
         };
         Insert: {
           group_id: string;
           user_id: string;
           joined_at?: string;
           role?: 'admin' | 'member';
-          unread_count?: number;
+          last_read_message_id?: string;
+          last_read_at?: string;
+          muted_until?: string;
+          joined_via_invite?: string;
         };
         Update: {
           role?: 'admin' | 'member';
+          last_read_message_id?: string;
+          last_read_at?: string;
+          muted_until?: string | null;
+        };
+      };
+      group_unread_counts: {
+        Row: {
+          group_id: string;
+          user_id: string;
+          unread_count: number;
+        };
+        Insert: {
+          group_id: string;
+          user_id: string;
           unread_count?: number;
         };
+        Update: {
+          unread_count?: number;
+        };
+      };
+      push_tokens: {
+        Row: {
+          token: string;
+          user_id: string;
+          platform?: 'ios' | 'android' | 'web';
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          token: string;
+          user_id: string;
+          platform?: 'ios' | 'android' | 'web';
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          platform?: 'ios' | 'android' | 'web';
+          updated_at?: string;
+        };
       };
       messages: {
         Row: {
@@ -137,6 +234,8 @@ export interface Database {
           message_type: 'text' | 'image' | 'video' | 'file';
           reply_to?: string;
           edited_at?: string;
+          deleted_at?: string;
+          uploading: boolean;
           status: 'sent' | 'delivered' | 'read';
         };
         Insert: {
@@ -149,12 +248,16 @@ export interface Database {
           message_type?: 'text' | 'image' | 'video' | 'file';
           reply_to?: string;
           edited_at?: string;
+          deleted_at?: string;
+          uploading?: boolean;
           status?: 'sent' | 'delivered' | 'read';
         };
         Update: {
           content?: string;
           updated_at?: string;
           edited_at?: string;
+          deleted_at?: string;
+          uploading?: boolean;
           status?: 'sent' | 'delivered' | 'read';
         };
       };
@@ -167,6 +270,7 @@ export interface Database {
           file_size: number;
           thumbnail_path?: string;
           metadata?: any;
+          group_id: string;
           created_at: string;
         };
         Insert: {
@@ -187,6 +291,115 @@ export interface Database {
           metadata?: any;
         };
       };
+      message_edits: {
+        Row: {
+          id: string;
+          message_id: string;
+          previous_content: string;
+          edited_at: string;
+        };
+        Insert: {
+          id?: string;
+          message_id: string;
+          previous_content: string;
+          edited_at?: string;
+        };
+        Update: {
+          previous_content?: string;
+        };
+      };
+      message_reactions: {
+        Row: {
+          message_id: string;
+          user_id: string;
+          emoji: string;
+          group_id: string;
+          created_at: string;
+          removed_at?: string;
+        };
+        Insert: {
+          message_id: string;
+          user_id: string;
+          emoji: string;
+          group_id?: string;
+          created_at?: string;
+          removed_at?: string | null;
+        };
+        Update: {
+          emoji?: string;
+          removed_at?: string | null;
+        };
+      };
+      group_extension_proposals: {
+        Row: {
+          id: string;
+          group_id: string;
+          proposed_by?: string;
+          extension_hours: number;
+          status: 'open' | 'approved' | 'rejected' | 'expired';
+          created_at: string;
+          resolved_at?: string;
+        };
+        Insert: {
+          id?: string;
+          group_id: string;
+          proposed_by?: string;
+          extension_hours: number;
+          status?: 'open' | 'approved' | 'rejected' | 'expired';
+          created_at?: string;
+          resolved_at?: string;
+        };
+        Update: {
+          status?: 'open' | 'approved' | 'rejected' | 'expired';
+          resolved_at?: string;
+        };
+      };
+      group_extension_votes: {
+        Row: {
+          proposal_id: string;
+          group_id: string;
+          user_id: string;
+          approve: boolean;
+          created_at: string;
+        };
+        Insert: {
+          proposal_id: string;
+          group_id: string;
+          user_id: string;
+          approve: boolean;
+          created_at?: string;
+        };
+        Update: {
+          approve?: boolean;
+        };
+      };
+      group_join_requests: {
+        Row: {
+          id: string;
+          group_id: string;
+          user_id: string;
+          invite_id?: string;
+          status: 'pending' | 'approved' | 'rejected';
+          created_at: string;
+          resolved_at?: string;
+          resolved_by?: string;
+        };
+        Insert: {
+          id?: string;
+          group_id: string;
+          user_id: string;
+          invite_id?: string;
+          status?: 'pending' | 'approved' | 'rejected';
+          created_at?: string;
+          resolved_at?: string;
+          resolved_by?: string;
+        };
+        Update: {
+          status?: 'pending' | 'approved' | 'rejected';
+          resolved_at?: string;
+          resolved_by?: string;
+        };
+      };
     };
   };
 }
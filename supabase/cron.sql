@@ -0,0 +1,16 @@
+-- Scheduled jobs for GroupBy (requires the pg_cron extension)
+-- Run this after schema.sql. Re-running it replaces the existing schedule.
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.unschedule(jobid)
+FROM cron.job
+WHERE jobname = 'process-expired-groups';
+
+-- Archive expired, inactive and full groups every minute, whether or not
+-- any client is online
+SELECT cron.schedule(
+  'process-expired-groups',
+  '* * * * *',
+  'SELECT public.process_expired_groups();'
+);
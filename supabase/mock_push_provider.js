@@ -0,0 +1,74 @@
+#!/usr/bin/env node
+// Local stand-in for the Expo push API used by fan_out_message_push().
+//
+// Accepts the same request body (a message or an array of messages), logs
+// every push and answers with Expo-style tickets, so the message trigger can
+// be exercised without real devices. Received pushes are also kept in memory
+// and can be read back with GET /pushes (DELETE /pushes clears them).
+//
+// Usage:
+//   node supabase/mock_push_provider.js
+//
+// Then point the database at it (from the Supabase Postgres container the
+// host is usually reachable as host.docker.internal):
+//   ALTER DATABASE postgres SET app.push_provider_url = 'http://host.docker.internal:4005/';
+//
+// Environment:
+//   PUSH_PROVIDER_PORT  port to listen on (default: 4005)
+
+const http = require('http');
+
+const PORT = Number(process.env.PUSH_PROVIDER_PORT || 4005);
+
+const received = [];
+let nextTicketId = 1;
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const server = http.createServer((req, res) => {
+  if (req.url === '/pushes' && req.method === 'GET') {
+    sendJson(res, 200, received);
+    return;
+  }
+
+  if (req.url === '/pushes' && req.method === 'DELETE') {
+    received.length = 0;
+    sendJson(res, 200, { cleared: true });
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    sendJson(res, 405, { errors: [{ code: 'METHOD_NOT_ALLOWED' }] });
+    return;
+  }
+
+  let body = '';
+  req.on('data', chunk => {
+    body += chunk;
+  });
+  req.on('end', () => {
+    let messages;
+    try {
+      const parsed = JSON.parse(body);
+      messages = Array.isArray(parsed) ? parsed : [parsed];
+    } catch (error) {
+      sendJson(res, 400, { errors: [{ code: 'VALIDATION_ERROR', message: 'Invalid JSON' }] });
+      return;
+    }
+
+    const tickets = messages.map(message => {
+      received.push({ ...message, receivedAt: new Date().toISOString() });
+      console.log(`push to ${message.to}: [${message.title}] ${message.body}`);
+      return { status: 'ok', id: `mock-${nextTicketId++}` };
+    });
+
+    sendJson(res, 200, { data: tickets });
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock push provider listening on http://localhost:${PORT}/`);
+});
@@ -0,0 +1,208 @@
+#!/usr/bin/env node
+// Local stand-in for Supabase Storage's resumable (TUS) upload endpoint,
+// used by src/services/resumableUpload.ts.
+//
+// Speaks the same subset of the protocol: POST creates an upload, HEAD
+// reports its offset, PATCH appends a chunk and DELETE drops it. Like
+// Supabase it insists on fixed-size chunks. Finished files are written to
+// STORAGE_MOCK_DIR and uploads can be inspected with GET /uploads
+// (DELETE /uploads clears them).
+//
+// Usage:
+//   node supabase/mock_storage_server.js
+//
+// Then point the app at it, e.g. in .env.local (use the machine's LAN
+// address when running on a device):
+//   EXPO_PUBLIC_STORAGE_UPLOAD_URL=http://localhost:4006/storage/v1/upload/resumable
+//
+// Environment:
+//   STORAGE_MOCK_PORT        port to listen on (default: 4006)
+//   STORAGE_MOCK_DIR         where finished files go (default: a temp directory)
+//   STORAGE_MOCK_CHUNK_SIZE  required size of every chunk but the last (default: 6MB)
+//   STORAGE_MOCK_FAIL_EVERY  drop the connection on every Nth PATCH after
+//                            keeping half of its bytes, to exercise resuming
+//                            (default: 0, never)
+
+const fs = require('fs');
+const http = require('http');
+const os = require('os');
+const path = require('path');
+const crypto = require('crypto');
+
+const PORT = Number(process.env.STORAGE_MOCK_PORT || 4006);
+const DIR = process.env.STORAGE_MOCK_DIR || fs.mkdtempSync(path.join(os.tmpdir(), 'mock-storage-'));
+const CHUNK_SIZE = Number(process.env.STORAGE_MOCK_CHUNK_SIZE || 6 * 1024 * 1024);
+const FAIL_EVERY = Number(process.env.STORAGE_MOCK_FAIL_EVERY || 0);
+const UPLOAD_PATH = '/storage/v1/upload/resumable';
+
+const TUS_HEADERS = {
+  'Tus-Resumable': '1.0.0',
+  'Tus-Version': '1.0.0',
+  'Tus-Extension': 'creation,termination',
+  'Tus-Max-Size': String(50 * 1024 * 1024),
+};
+
+const uploads = new Map();
+let patchCount = 0;
+
+const send = (res, status, headers = {}, body) => {
+  res.writeHead(status, { ...TUS_HEADERS, ...headers });
+  res.end(body);
+};
+
+const sendJson = (res, status, body) =>
+  send(res, status, { 'Content-Type': 'application/json' }, JSON.stringify(body));
+
+// "key base64value,key base64value"
+const parseMetadata = header =>
+  Object.fromEntries(
+    (header || '')
+      .split(',')
+      .filter(Boolean)
+      .map(pair => {
+        const [key, value = ''] = pair.trim().split(' ');
+        return [key, Buffer.from(value, 'base64').toString('utf8')];
+      })
+  );
+
+const describe = upload => ({
+  id: upload.id,
+  bucketName: upload.metadata.bucketName,
+  objectName: upload.metadata.objectName,
+  contentType: upload.metadata.contentType,
+  length: upload.length,
+  offset: upload.offset,
+  complete: upload.offset === upload.length,
+  file: upload.file,
+});
+
+const handleCreate = (req, res) => {
+  const length = Number(req.headers['upload-length']);
+  const metadata = parseMetadata(req.headers['upload-metadata']);
+
+  if (!req.headers.authorization) {
+    sendJson(res, 401, { error: 'Missing authorization header' });
+    return;
+  }
+  if (!Number.isInteger(length) || length < 0) {
+    sendJson(res, 400, { error: 'Invalid Upload-Length' });
+    return;
+  }
+  if (!metadata.bucketName || !metadata.objectName) {
+    sendJson(res, 400, { error: 'Upload-Metadata needs bucketName and objectName' });
+    return;
+  }
+
+  const id = crypto.randomUUID();
+  const file = path.join(DIR, metadata.bucketName, metadata.objectName);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, Buffer.alloc(0));
+
+  uploads.set(id, { id, length, offset: 0, metadata, file });
+  console.log(`created ${id}: ${metadata.bucketName}/${metadata.objectName} (${length} bytes)`);
+  send(res, 201, { Location: `http://${req.headers.host}${UPLOAD_PATH}/${id}` });
+};
+
+const handlePatch = (req, res, upload) => {
+  const offset = Number(req.headers['upload-offset']);
+
+  if (req.headers['content-type'] !== 'application/offset+octet-stream') {
+    send(res, 415);
+    return;
+  }
+  if (offset !== upload.offset) {
+    send(res, 409, { 'Upload-Offset': String(upload.offset) });
+    return;
+  }
+
+  const failThisOne = FAIL_EVERY > 0 && ++patchCount % FAIL_EVERY === 0;
+  const parts = [];
+  req.on('data', part => parts.push(part));
+  req.on('end', () => {
+    let chunk = Buffer.concat(parts);
+
+    if (failThisOne) {
+      // A real connection drop leaves part of the chunk behind
+      chunk = chunk.subarray(0, Math.floor(chunk.length / 2));
+      fs.appendFileSync(upload.file, chunk);
+      upload.offset += chunk.length;
+      console.log(`dropping PATCH ${upload.id} at ${upload.offset}/${upload.length}`);
+      req.socket.destroy();
+      return;
+    }
+
+    const isLast = upload.offset + chunk.length === upload.length;
+    if (upload.offset + chunk.length > upload.length) {
+      send(res, 413);
+      return;
+    }
+    // Only the last chunk may be short
+    if (!isLast && chunk.length !== CHUNK_SIZE) {
+      sendJson(res, 400, { error: `Chunks must be ${CHUNK_SIZE} bytes` });
+      return;
+    }
+
+    fs.appendFileSync(upload.file, chunk);
+    upload.offset += chunk.length;
+    console.log(`${upload.id}: ${upload.offset}/${upload.length}${isLast ? ' done' : ''}`);
+    send(res, 204, { 'Upload-Offset': String(upload.offset) });
+  });
+};
+
+const server = http.createServer((req, res) => {
+  const url = req.url.split('?')[0];
+
+  if (url === '/uploads' && req.method === 'GET') {
+    sendJson(res, 200, Array.from(uploads.values()).map(describe));
+    return;
+  }
+
+  if (url === '/uploads' && req.method === 'DELETE') {
+    uploads.clear();
+    sendJson(res, 200, { cleared: true });
+    return;
+  }
+
+  if (req.method === 'OPTIONS') {
+    send(res, 204);
+    return;
+  }
+
+  if (url === UPLOAD_PATH && req.method === 'POST') {
+    handleCreate(req, res);
+    return;
+  }
+
+  const upload = url.startsWith(`${UPLOAD_PATH}/`)
+    ? uploads.get(url.slice(UPLOAD_PATH.length + 1))
+    : undefined;
+  if (!upload) {
+    send(res, 404);
+    return;
+  }
+
+  switch (req.method) {
+    case 'HEAD':
+      send(res, 200, {
+        'Upload-Offset': String(upload.offset),
+        'Upload-Length': String(upload.length),
+        'Cache-Control': 'no-store',
+      });
+      return;
+    case 'PATCH':
+      handlePatch(req, res, upload);
+      return;
+    case 'DELETE':
+      uploads.delete(upload.id);
+      fs.rmSync(upload.file, { force: true });
+      console.log(`deleted ${upload.id}`);
+      send(res, 204);
+      return;
+    default:
+      send(res, 405);
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock storage listening on http://localhost:${PORT}${UPLOAD_PATH} (files in ${DIR})`);
+});
@@ -3,6 +3,7 @@
 
 -- Enable necessary extensions
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+CREATE EXTENSION IF NOT EXISTS pg_net; -- outgoing HTTP for push notifications
 
 -- Users table (extends Supabase auth.users)
 CREATE TABLE public.users (
@@ -10,6 +11,8 @@ CREATE TABLE public.users (
   email TEXT,
   display_name TEXT NOT NULL,
   avatar_url TEXT,
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  hide_last_seen BOOLEAN DEFAULT FALSE, -- privacy: keep last_seen_at from other members
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -26,12 +29,31 @@ CREATE TABLE public.groups (
   inactivity_threshold INTEGER DEFAULT 3, -- days
   message_limit INTEGER,
   status TEXT DEFAULT 'active' CHECK (status IN ('active', 'expiring', 'archived')),
-  invite_code TEXT UNIQUE,
-  invite_code_expires_at TIMESTAMP WITH TIME ZONE,
   disbanded_at TIMESTAMP WITH TIME ZONE,
   disband_reason TEXT CHECK (disband_reason IN ('expired', 'inactive', 'message_limit', 'manual')),
   archived_until TIMESTAMP WITH TIME ZONE,
-  last_activity TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+  last_activity TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  warn_before_expiry BOOLEAN DEFAULT TRUE,
+  allow_extension BOOLEAN DEFAULT FALSE,
+  extension_approval TEXT DEFAULT 'quorum' CHECK (extension_approval IN ('quorum', 'admin')),
+  extension_quorum NUMERIC DEFAULT 0.5 CHECK (extension_quorum > 0 AND extension_quorum <= 1),
+  extension_count INTEGER DEFAULT 0,
+  require_approval BOOLEAN DEFAULT FALSE -- invitees wait for an admin to let them in
+);
+
+-- Invite codes. Every group has one default invite that any member can
+-- share; admins can add more, each with its own expiry and use limit.
+CREATE TABLE public.group_invites (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  group_id UUID REFERENCES public.groups(id) ON DELETE CASCADE NOT NULL,
+  code TEXT UNIQUE NOT NULL,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE, -- NULL never expires
+  max_uses INTEGER CHECK (max_uses IS NULL OR max_uses > 0), -- NULL is unlimited
+  use_count INTEGER DEFAULT 0,
+  revoked BOOLEAN DEFAULT FALSE,
+  is_default BOOLEAN DEFAULT FALSE
 );
 
 -- Group members (many-to-many relationship)
@@ -40,10 +62,32 @@ CREATE TABLE public.group_members (
   user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
   joined_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   role TEXT DEFAULT 'member' CHECK (role IN ('admin', 'member')),
-  unread_count INTEGER DEFAULT 0,
+  last_read_message_id UUID, -- read cursor; foreign key added after messages
+  last_read_at TIMESTAMP WITH TIME ZONE, -- created_at of last_read_message_id
+  muted_until TIMESTAMP WITH TIME ZONE, -- no pushes until then; 'infinity' mutes for good
+  joined_via_invite UUID REFERENCES public.group_invites(id) ON DELETE SET NULL,
   PRIMARY KEY (group_id, user_id)
 );
 
+-- Unread counts, apart from group_members so that bumping every member's
+-- count is not broadcast to everyone watching the group's read cursors
+CREATE TABLE public.group_unread_counts (
+  group_id UUID,
+  user_id UUID,
+  unread_count INTEGER DEFAULT 0,
+  PRIMARY KEY (group_id, user_id),
+  FOREIGN KEY (group_id, user_id) REFERENCES public.group_members(group_id, user_id) ON DELETE CASCADE
+);
+
+-- Device push tokens (one user can have several devices)
+CREATE TABLE public.push_tokens (
+  token TEXT PRIMARY KEY,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  platform TEXT CHECK (platform IN ('ios', 'android', 'web')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Messages table
 CREATE TABLE public.messages (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
@@ -55,9 +99,23 @@ CREATE TABLE public.messages (
   message_type TEXT DEFAULT 'text' CHECK (message_type IN ('text', 'image', 'video', 'file')),
   reply_to UUID REFERENCES public.messages(id) ON DELETE SET NULL,
   edited_at TIMESTAMP WITH TIME ZONE,
+  deleted_at TIMESTAMP WITH TIME ZONE, -- soft delete; row stays as a tombstone
+  uploading BOOLEAN DEFAULT FALSE, -- held back from other members until its attachments are uploaded
   status TEXT DEFAULT 'sent' CHECK (status IN ('sent', 'delivered', 'read'))
 );
 
+ALTER TABLE public.group_members
+  ADD CONSTRAINT group_members_last_read_message_id_fkey
+  FOREIGN KEY (last_read_message_id) REFERENCES public.messages(id) ON DELETE SET NULL;
+
+-- Previous versions of edited messages
+CREATE TABLE public.message_edits (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  message_id UUID REFERENCES public.messages(id) ON DELETE CASCADE,
+  previous_content TEXT NOT NULL,
+  edited_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Attachments table for media files
 CREATE TABLE public.attachments (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
@@ -67,6 +125,59 @@ CREATE TABLE public.attachments (
   file_size BIGINT NOT NULL,
   thumbnail_path TEXT,
   metadata JSONB,
+  group_id UUID REFERENCES public.groups(id) ON DELETE CASCADE, -- denormalized for realtime filters
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Message reactions (one row per user, message and emoji)
+CREATE TABLE public.message_reactions (
+  message_id UUID REFERENCES public.messages(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  emoji TEXT NOT NULL,
+  group_id UUID REFERENCES public.groups(id) ON DELETE CASCADE, -- denormalized for realtime filters
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  removed_at TIMESTAMP WITH TIME ZONE, -- soft delete, so removals reach realtime as RLS-checked updates
+  PRIMARY KEY (message_id, user_id, emoji)
+);
+
+-- Proposals to extend an expiring group's lifetime
+CREATE TABLE public.group_extension_proposals (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  group_id UUID REFERENCES public.groups(id) ON DELETE CASCADE,
+  proposed_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  extension_hours INTEGER NOT NULL CHECK (extension_hours IN (1, 24)),
+  status TEXT DEFAULT 'open' CHECK (status IN ('open', 'approved', 'rejected', 'expired')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  resolved_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Votes on extension proposals (one per member)
+CREATE TABLE public.group_extension_votes (
+  proposal_id UUID REFERENCES public.group_extension_proposals(id) ON DELETE CASCADE,
+  group_id UUID REFERENCES public.groups(id) ON DELETE CASCADE, -- denormalized for realtime filters
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  approve BOOLEAN NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (proposal_id, user_id)
+);
+
+-- Requests to join groups that require approval
+CREATE TABLE public.group_join_requests (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  group_id UUID REFERENCES public.groups(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  invite_id UUID REFERENCES public.group_invites(id) ON DELETE SET NULL,
+  status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolved_by UUID REFERENCES public.users(id) ON DELETE SET NULL
+);
+
+-- Failed invite lookups, kept briefly to throttle code guessing
+CREATE TABLE public.invite_code_failures (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  ip_address INET,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
@@ -74,11 +185,28 @@ CREATE TABLE public.attachments (
 CREATE INDEX idx_groups_status ON public.groups(status);
 CREATE INDEX idx_groups_expires_at ON public.groups(expires_at);
 CREATE INDEX idx_groups_last_activity ON public.groups(last_activity);
-CREATE INDEX idx_groups_invite_code ON public.groups(invite_code);
+CREATE INDEX idx_group_invites_group_id ON public.group_invites(group_id);
+-- At most one live default invite per group
+CREATE UNIQUE INDEX idx_group_invites_default
+  ON public.group_invites(group_id) WHERE is_default AND NOT revoked;
 CREATE INDEX idx_group_members_user_id ON public.group_members(user_id);
+CREATE INDEX idx_push_tokens_user_id ON public.push_tokens(user_id);
 CREATE INDEX idx_messages_group_id ON public.messages(group_id);
 CREATE INDEX idx_messages_created_at ON public.messages(created_at);
+CREATE INDEX idx_messages_group_id_created_at ON public.messages(group_id, created_at DESC);
 CREATE INDEX idx_attachments_message_id ON public.attachments(message_id);
+CREATE INDEX idx_attachments_group_id ON public.attachments(group_id);
+CREATE INDEX idx_message_reactions_group_id ON public.message_reactions(group_id);
+CREATE INDEX idx_message_edits_message_id ON public.message_edits(message_id);
+-- At most one pending join request per user and group
+CREATE UNIQUE INDEX idx_group_join_requests_pending
+  ON public.group_join_requests(group_id, user_id) WHERE status = 'pending';
+CREATE INDEX idx_group_join_requests_user_id ON public.group_join_requests(user_id);
+CREATE INDEX idx_invite_code_failures_user_id ON public.invite_code_failures(user_id, created_at);
+CREATE INDEX idx_invite_code_failures_ip_address ON public.invite_code_failures(ip_address, created_at);
+-- At most one open extension proposal per group
+CREATE UNIQUE INDEX idx_group_extension_proposals_open
+  ON public.group_extension_proposals(group_id) WHERE status = 'open';
 
 -- Row Level Security (RLS) Policies
 
@@ -86,8 +214,17 @@ CREATE INDEX idx_attachments_message_id ON public.attachments(message_id);
 ALTER TABLE public.users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.groups ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.group_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.group_unread_counts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.group_invites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.push_tokens ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.messages ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.attachments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.message_reactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.message_edits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.group_extension_proposals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.group_extension_votes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.group_join_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invite_code_failures ENABLE ROW LEVEL SECURITY; -- no policies: server-side only
 
 -- Users can read/update their own profile
 CREATE POLICY "Users can view their own profile" ON public.users
@@ -123,18 +260,80 @@ CREATE POLICY "Group admins can update groups" ON public.groups
 CREATE POLICY "Users can view all group memberships" ON public.group_members
   FOR SELECT USING (true);
 
-CREATE POLICY "Users can join groups" ON public.group_members
-  FOR INSERT WITH CHECK (user_id = auth.uid());
+-- Everyone else joins through join_group_with_invite()
+CREATE POLICY "Group creators can add themselves" ON public.group_members
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid() AND EXISTS (
+      SELECT 1 FROM public.groups
+      WHERE id = group_members.group_id AND created_by = auth.uid()
+    )
+  );
 
 CREATE POLICY "Users can leave groups" ON public.group_members
   FOR DELETE USING (user_id = auth.uid());
 
 CREATE POLICY "Users can update their own membership data" ON public.group_members
+  FOR UPDATE USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+-- Members may only mute their own membership; role, group and read cursor
+-- change through SECURITY DEFINER functions, so nobody can promote themselves
+REVOKE UPDATE ON public.group_members FROM PUBLIC, anon, authenticated;
+GRANT UPDATE (muted_until) ON public.group_members TO authenticated;
+
+-- Unread count policies (counts are kept by triggers and mark_group_read)
+CREATE POLICY "Users can view their own unread counts" ON public.group_unread_counts
+  FOR SELECT USING (user_id = auth.uid());
+
+-- Push token policies (a token moves to whoever signs in on the device)
+CREATE POLICY "Users can view their own push tokens" ON public.push_tokens
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can register push tokens" ON public.push_tokens
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own push tokens" ON public.push_tokens
   FOR UPDATE USING (user_id = auth.uid());
 
+CREATE POLICY "Users can remove their own push tokens" ON public.push_tokens
+  FOR DELETE USING (user_id = auth.uid());
+
+-- Admin check that bypasses RLS so group_members policies do not recurse
+CREATE OR REPLACE FUNCTION is_group_admin(target_group_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.group_members
+    WHERE group_id = target_group_id AND user_id = auth.uid() AND role = 'admin'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "Group admins can remove members" ON public.group_members
+  FOR DELETE USING (is_group_admin(group_id));
+
+-- Invite policies (invites are created and revoked through RPCs)
+CREATE POLICY "Group admins can view invites" ON public.group_invites
+  FOR SELECT USING (is_group_admin(group_id));
+
+-- Join request policies (requests are created and resolved through RPCs)
+CREATE POLICY "Users can view their own join requests" ON public.group_join_requests
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Group admins can view join requests" ON public.group_join_requests
+  FOR SELECT USING (is_group_admin(group_id));
+
+CREATE POLICY "Group admins can view requesters" ON public.users
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.group_join_requests r
+      WHERE r.user_id = users.id
+        AND r.status = 'pending'
+        AND is_group_admin(r.group_id)
+    )
+  );
+
 -- Message policies
 CREATE POLICY "Users can view messages in their groups" ON public.messages
   FOR SELECT USING (
+    (NOT uploading OR user_id = auth.uid()) AND
     EXISTS (
       SELECT 1 FROM public.group_members
       WHERE group_id = messages.group_id AND user_id = auth.uid()
@@ -151,7 +350,27 @@ CREATE POLICY "Users can send messages to their groups" ON public.messages
   );
 
 CREATE POLICY "Users can edit their own messages" ON public.messages
-  FOR UPDATE USING (user_id = auth.uid());
+  FOR UPDATE USING (
+    user_id = auth.uid() AND
+    deleted_at IS NULL AND
+    EXISTS (
+      SELECT 1 FROM public.groups
+      WHERE id = messages.group_id AND status <> 'archived'
+    )
+  )
+  WITH CHECK (user_id = auth.uid());
+
+-- No DELETE policy: messages are only soft-deleted by setting deleted_at
+
+-- Edit history policies (rows are written by trigger only)
+CREATE POLICY "Users can view edit history in their groups" ON public.message_edits
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.messages m
+      JOIN public.group_members gm ON m.group_id = gm.group_id
+      WHERE m.id = message_edits.message_id AND gm.user_id = auth.uid()
+    )
+  );
 
 -- Attachment policies
 CREATE POLICY "Users can view attachments for messages in their groups" ON public.attachments
@@ -171,6 +390,61 @@ CREATE POLICY "Users can add attachments to their messages" ON public.attachment
     )
   );
 
+-- Reaction policies
+CREATE POLICY "Users can view reactions in their groups" ON public.message_reactions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.group_members
+      WHERE group_id = message_reactions.group_id AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can react to messages in their active groups" ON public.message_reactions
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM public.messages m
+      JOIN public.group_members gm ON gm.group_id = m.group_id
+      JOIN public.groups g ON g.id = m.group_id
+      WHERE m.id = message_reactions.message_id
+        AND gm.user_id = auth.uid()
+        AND g.status <> 'archived'
+    )
+  );
+
+-- Removing a reaction sets removed_at and adding it again clears it
+CREATE POLICY "Users can update their own reactions" ON public.message_reactions
+  FOR UPDATE USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM public.messages m
+      JOIN public.group_members gm ON gm.group_id = m.group_id
+      JOIN public.groups g ON g.id = m.group_id
+      WHERE m.id = message_reactions.message_id
+        AND m.group_id = message_reactions.group_id
+        AND gm.user_id = auth.uid()
+        AND g.status <> 'archived'
+    )
+  );
+
+-- Extension policies (rows are written by the extension RPCs only)
+CREATE POLICY "Users can view extension proposals in their groups" ON public.group_extension_proposals
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.group_members
+      WHERE group_id = group_extension_proposals.group_id AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view extension votes in their groups" ON public.group_extension_votes
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.group_members
+      WHERE group_id = group_extension_votes.group_id AND user_id = auth.uid()
+    )
+  );
+
 -- Functions for ephemeral group management
 
 -- Function to update group last activity
@@ -190,7 +464,271 @@ CREATE TRIGGER trigger_update_group_activity
   FOR EACH ROW
   EXECUTE FUNCTION update_group_last_activity();
 
--- Function to check and update expired groups
+-- Function to bump unread counts for everyone in the group except the sender
+CREATE OR REPLACE FUNCTION increment_unread_counts()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.group_unread_counts (group_id, user_id, unread_count)
+  SELECT gm.group_id, gm.user_id, 1
+  FROM public.group_members gm
+  WHERE gm.group_id = NEW.group_id
+    AND gm.user_id IS DISTINCT FROM NEW.user_id
+  ON CONFLICT (group_id, user_id)
+  DO UPDATE SET unread_count = public.group_unread_counts.unread_count + 1;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Triggers to maintain unread counts when messages are sent, or published
+-- once their attachments are uploaded
+CREATE TRIGGER trigger_increment_unread_counts
+  AFTER INSERT ON public.messages
+  FOR EACH ROW
+  WHEN (NOT NEW.uploading)
+  EXECUTE FUNCTION increment_unread_counts();
+
+CREATE TRIGGER trigger_increment_unread_counts_on_publish
+  AFTER UPDATE OF uploading ON public.messages
+  FOR EACH ROW
+  WHEN (OLD.uploading AND NOT NEW.uploading)
+  EXECUTE FUNCTION increment_unread_counts();
+
+-- Function to register the current user's device for pushes. A token that
+-- belonged to someone else (shared device, re-login) is taken over.
+CREATE OR REPLACE FUNCTION register_push_token(device_token TEXT, device_platform TEXT)
+RETURNS VOID AS $$
+  INSERT INTO public.push_tokens (token, user_id, platform)
+  VALUES (device_token, auth.uid(), device_platform)
+  ON CONFLICT (token)
+  DO UPDATE SET user_id = auth.uid(), platform = EXCLUDED.platform, updated_at = NOW();
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Function to send a push for a new message to every other member with a
+-- registered device, skipping members who muted the group. Pushes go to the
+-- Expo push API in batches of 100, or to app.push_provider_url when set
+-- (see mock_push_provider.js for a local stand-in).
+CREATE OR REPLACE FUNCTION fan_out_message_push()
+RETURNS TRIGGER AS $$
+DECLARE
+  provider_url TEXT := COALESCE(
+    NULLIF(current_setting('app.push_provider_url', true), ''),
+    'https://exp.host/--/api/v2/push/send'
+  );
+  group_name TEXT;
+  sender_name TEXT;
+  preview TEXT;
+  batch JSONB;
+BEGIN
+  SELECT name INTO group_name FROM public.groups WHERE id = NEW.group_id;
+  SELECT display_name INTO sender_name FROM public.users WHERE id = NEW.user_id;
+
+  preview := CASE NEW.message_type
+    WHEN 'image' THEN '📷 画像'
+    WHEN 'video' THEN '🎥 動画'
+    WHEN 'file' THEN '📎 ファイル'
+    ELSE left(NEW.content, 100)
+  END;
+
+  FOR batch IN
+    SELECT jsonb_agg(push)
+    FROM (
+      SELECT
+        jsonb_build_object(
+          'to', pt.token,
+          'title', group_name,
+          'body', COALESCE(sender_name, 'Unknown User') || ': ' || preview,
+          'sound', 'default',
+          'channelId', 'messages',
+          'data', jsonb_build_object(
+            'type', 'new_message',
+            'groupId', NEW.group_id,
+            'messageId', NEW.id
+          )
+        ) AS push,
+        (ROW_NUMBER() OVER (ORDER BY pt.token) - 1) / 100 AS batch_number
+      FROM public.group_members gm
+      JOIN public.push_tokens pt ON pt.user_id = gm.user_id
+      WHERE gm.group_id = NEW.group_id
+        AND gm.user_id IS DISTINCT FROM NEW.user_id
+        AND (gm.muted_until IS NULL OR gm.muted_until <= NOW())
+    ) pushes
+    GROUP BY batch_number
+  LOOP
+    PERFORM net.http_post(
+      url := provider_url,
+      body := batch,
+      headers := '{"Content-Type": "application/json"}'::jsonb
+    );
+  END LOOP;
+
+  RETURN NEW;
+EXCEPTION WHEN OTHERS THEN
+  -- A failed push must never block sending the message
+  RAISE WARNING 'fan_out_message_push failed: %', SQLERRM;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Triggers to push new messages to other members' devices; messages with
+-- attachments are pushed once they are published, not while uploading
+CREATE TRIGGER trigger_fan_out_message_push
+  AFTER INSERT ON public.messages
+  FOR EACH ROW
+  WHEN (NOT NEW.uploading)
+  EXECUTE FUNCTION fan_out_message_push();
+
+CREATE TRIGGER trigger_fan_out_message_push_on_publish
+  AFTER UPDATE OF uploading ON public.messages
+  FOR EACH ROW
+  WHEN (OLD.uploading AND NOT NEW.uploading)
+  EXECUTE FUNCTION fan_out_message_push();
+
+-- Function to date a held message from when it is published, so it sorts
+-- and counts as read like a message sent at that moment. Published
+-- messages cannot be held back again.
+CREATE OR REPLACE FUNCTION handle_message_publish()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.uploading AND NOT NEW.uploading THEN
+    NEW.created_at := NOW();
+  ELSIF NEW.uploading AND NOT OLD.uploading THEN
+    RAISE EXCEPTION 'Published messages cannot be held back';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger to handle publishing held messages
+CREATE TRIGGER trigger_handle_message_publish
+  BEFORE UPDATE OF uploading ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_message_publish();
+
+-- Function to publish one of the current user's held messages once its
+-- uploads have finished or been cancelled. A message left with neither
+-- text nor attachments is deleted outright; nobody else has seen it, so
+-- it leaves no tombstone. Returns false when it was deleted.
+CREATE OR REPLACE FUNCTION publish_message(target_message_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  DELETE FROM public.messages m
+  WHERE m.id = target_message_id
+    AND m.user_id = auth.uid()
+    AND m.uploading
+    AND m.content = ''
+    AND NOT EXISTS (SELECT 1 FROM public.attachments a WHERE a.message_id = m.id);
+
+  IF FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE public.messages
+  SET uploading = FALSE
+  WHERE id = target_message_id
+    AND user_id = auth.uid()
+    AND uploading;
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to record edit history and scrub deleted messages
+CREATE OR REPLACE FUNCTION handle_message_edit()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.deleted_at IS NOT NULL AND OLD.deleted_at IS NULL THEN
+    -- Deleting: keep a tombstone but drop content, history, reactions and attachments
+    NEW.content := '';
+    DELETE FROM public.message_edits WHERE message_id = OLD.id;
+    DELETE FROM public.message_reactions WHERE message_id = OLD.id;
+    -- The files themselves are removed by the client through the Storage API
+    DELETE FROM public.attachments WHERE message_id = OLD.id;
+  ELSIF NEW.content IS DISTINCT FROM OLD.content THEN
+    INSERT INTO public.message_edits (message_id, previous_content)
+    VALUES (OLD.id, OLD.content);
+    NEW.edited_at := NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Trigger to track edits and deletions
+CREATE TRIGGER trigger_handle_message_edit
+  BEFORE UPDATE ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_message_edit();
+
+-- Function to copy a reaction's group from its message
+CREATE OR REPLACE FUNCTION set_reaction_group_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT group_id INTO NEW.group_id
+  FROM public.messages
+  WHERE id = NEW.message_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger to set group_id on new reactions
+CREATE TRIGGER trigger_set_reaction_group_id
+  BEFORE INSERT ON public.message_reactions
+  FOR EACH ROW
+  EXECUTE FUNCTION set_reaction_group_id();
+
+-- Function to copy an attachment's group from its message
+CREATE OR REPLACE FUNCTION set_attachment_group_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT group_id INTO NEW.group_id
+  FROM public.messages
+  WHERE id = NEW.message_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger to set group_id on new attachments
+CREATE TRIGGER trigger_set_attachment_group_id
+  BEFORE INSERT ON public.attachments
+  FOR EACH ROW
+  EXECUTE FUNCTION set_attachment_group_id();
+
+-- Function to bump a message's updated_at when its reactions or attachments
+-- change, so clients catching up after a reconnect only need the messages
+-- changed since their last sync. Changes made by other triggers (a message
+-- being deleted, cascades) are skipped; those update the message anyway.
+CREATE OR REPLACE FUNCTION touch_message_updated_at()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_message_id UUID;
+BEGIN
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    target_message_id := OLD.message_id;
+  ELSE
+    target_message_id := NEW.message_id;
+  END IF;
+
+  UPDATE public.messages
+  SET updated_at = NOW()
+  WHERE id = target_message_id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Triggers to touch messages when reactions or attachments change
+CREATE TRIGGER trigger_touch_message_on_reaction
+  AFTER INSERT OR UPDATE OF removed_at OR DELETE ON public.message_reactions
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_message_updated_at();
+
+CREATE TRIGGER trigger_touch_message_on_attachment
+  AFTER INSERT OR DELETE ON public.attachments
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_message_updated_at();
+
+-- Function to check and update expired groups (run by the pg_cron job in cron.sql)
 CREATE OR REPLACE FUNCTION process_expired_groups()
 RETURNS void AS $$
 BEGIN
@@ -200,7 +738,7 @@ BEGIN
       disbanded_at = NOW(),
       disband_reason = 'expired',
       updated_at = NOW()
-  WHERE status = 'active'
+  WHERE status IN ('active', 'expiring')
     AND expires_at IS NOT NULL
     AND expires_at < NOW();
 
@@ -210,7 +748,7 @@ BEGIN
       disbanded_at = NOW(),
       disband_reason = 'inactive',
       updated_at = NOW()
-  WHERE status = 'active'
+  WHERE status IN ('active', 'expiring')
     AND inactivity_threshold IS NOT NULL
     AND last_activity < NOW() - INTERVAL '1 day' * inactivity_threshold;
 
@@ -220,7 +758,7 @@ BEGIN
       disbanded_at = NOW(),
       disband_reason = 'message_limit',
       updated_at = NOW()
-  WHERE status = 'active'
+  WHERE status IN ('active', 'expiring')
     AND message_limit IS NOT NULL
     AND (
       SELECT COUNT(*) FROM public.messages
@@ -235,48 +773,713 @@ BEGIN
     AND expires_at IS NOT NULL
     AND expires_at > NOW()
     AND expires_at < NOW() + (expires_at - created_at) * 0.1;
+
+  -- Close extension votes for groups that disbanded anyway
+  UPDATE public.group_extension_proposals p
+  SET status = 'expired',
+      resolved_at = NOW()
+  FROM public.groups g
+  WHERE p.group_id = g.id
+    AND p.status = 'open'
+    AND g.status = 'archived';
+
+  -- Forget failed invite lookups once they no longer count towards a limit
+  DELETE FROM public.invite_code_failures
+  WHERE created_at < NOW() - INTERVAL '1 day';
 END;
 $$ LANGUAGE plpgsql;
 
--- Function to generate unique invite codes
+-- Expiry runs on the server only; clients must not trigger it
+REVOKE EXECUTE ON FUNCTION process_expired_groups() FROM PUBLIC, anon, authenticated;
+
+-- Function to generate unique invite codes: 8 characters from an alphabet
+-- without look-alikes (0/O, 1/I/L), so codes can be read aloud. Must match
+-- INVITE_CODE_ALPHABET in src/utils/inviteLinks.ts.
 CREATE OR REPLACE FUNCTION generate_invite_code()
 RETURNS TEXT AS $$
 DECLARE
-  code TEXT;
+  alphabet CONSTANT TEXT := '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+  random_bytes BYTEA;
+  random_byte INTEGER;
+  new_code TEXT;
   exists_code BOOLEAN;
 BEGIN
   LOOP
-    -- Generate 6-character alphanumeric code
-    code := upper(substr(md5(random()::text), 1, 6));
+    -- gen_random_uuid() draws from a cryptographic source, unlike random()
+    random_bytes := decode(md5(gen_random_uuid()::text), 'hex');
+    new_code := '';
+
+    FOR i IN 0..length(random_bytes) - 1 LOOP
+      random_byte := get_byte(random_bytes, i);
+      -- Skip the top bytes so every character is equally likely
+      CONTINUE WHEN random_byte >= 256 - 256 % length(alphabet);
+      new_code := new_code || substr(alphabet, random_byte % length(alphabet) + 1, 1);
+      EXIT WHEN length(new_code) = 8;
+    END LOOP;
+
+    CONTINUE WHEN length(new_code) < 8;
 
     -- Check if code already exists
-    SELECT EXISTS(SELECT 1 FROM public.groups WHERE invite_code = code) INTO exists_code;
+    SELECT EXISTS(SELECT 1 FROM public.group_invites WHERE code = new_code) INTO exists_code;
 
     -- Exit loop if code is unique
     EXIT WHEN NOT exists_code;
   END LOOP;
 
-  RETURN code;
+  RETURN new_code;
 END;
 $$ LANGUAGE plpgsql;
 
--- Function to automatically set invite code on group creation
-CREATE OR REPLACE FUNCTION set_group_invite_code()
+-- Function to check whether an invite can still be used to join
+CREATE OR REPLACE FUNCTION is_invite_usable(invite public.group_invites)
+RETURNS BOOLEAN AS $$
+  SELECT NOT invite.revoked
+    AND (invite.expires_at IS NULL OR invite.expires_at > NOW())
+    AND (invite.max_uses IS NULL OR invite.use_count < invite.max_uses);
+$$ LANGUAGE sql STABLE;
+
+-- Function to create the default invite for a new group
+CREATE OR REPLACE FUNCTION create_default_group_invite()
 RETURNS TRIGGER AS $$
 BEGIN
-  IF NEW.invite_code IS NULL THEN
-    NEW.invite_code := generate_invite_code();
-    NEW.invite_code_expires_at := NOW() + INTERVAL '7 days';
-  END IF;
+  INSERT INTO public.group_invites (group_id, code, created_by, expires_at, is_default)
+  VALUES (NEW.id, generate_invite_code(), NEW.created_by, NOW() + INTERVAL '7 days', TRUE);
   RETURN NEW;
 END;
-$$ LANGUAGE plpgsql;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
 
--- Trigger to set invite code on group creation
-CREATE TRIGGER trigger_set_invite_code
-  BEFORE INSERT ON public.groups
+-- Trigger to create the default invite on group creation
+CREATE TRIGGER trigger_create_default_group_invite
+  AFTER INSERT ON public.groups
   FOR EACH ROW
-  EXECUTE FUNCTION set_group_invite_code();
+  EXECUTE FUNCTION create_default_group_invite();
+
+-- Function to replace a group's default invite (admins only)
+CREATE OR REPLACE FUNCTION regenerate_invite_code(target_group_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  new_code TEXT;
+BEGIN
+  IF NOT is_group_admin(target_group_id) THEN
+    RAISE EXCEPTION 'Only group admins can regenerate invite codes';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.groups
+    WHERE id = target_group_id AND status <> 'archived'
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.group_invites
+  SET revoked = TRUE
+  WHERE group_id = target_group_id
+    AND is_default
+    AND NOT revoked;
+
+  new_code := generate_invite_code();
+
+  INSERT INTO public.group_invites (group_id, code, created_by, expires_at, is_default)
+  VALUES (target_group_id, new_code, auth.uid(), NOW() + INTERVAL '7 days', TRUE);
+
+  RETURN new_code;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to add an extra invite (admins only). NULL arguments mean no
+-- expiry or no use limit.
+CREATE OR REPLACE FUNCTION create_group_invite(
+  target_group_id UUID,
+  expires_in_hours INTEGER DEFAULT NULL,
+  max_uses INTEGER DEFAULT NULL
+)
+RETURNS public.group_invites AS $$
+DECLARE
+  invite public.group_invites;
+BEGIN
+  IF NOT is_group_admin(target_group_id) THEN
+    RAISE EXCEPTION 'Only group admins can create invites';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.groups
+    WHERE id = target_group_id AND status <> 'archived'
+  ) THEN
+    RAISE EXCEPTION 'Cannot invite to an archived group';
+  END IF;
+
+  INSERT INTO public.group_invites (group_id, code, created_by, expires_at, max_uses)
+  VALUES (
+    target_group_id,
+    generate_invite_code(),
+    auth.uid(),
+    NOW() + make_interval(hours => expires_in_hours),
+    create_group_invite.max_uses
+  )
+  RETURNING * INTO invite;
+
+  RETURN invite;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to revoke an invite (admins only)
+CREATE OR REPLACE FUNCTION revoke_group_invite(target_invite_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE public.group_invites
+  SET revoked = TRUE
+  WHERE id = target_invite_id
+    AND is_group_admin(group_id);
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to get the caller's IP from the headers PostgREST forwards
+CREATE OR REPLACE FUNCTION request_ip()
+RETURNS INET AS $$
+BEGIN
+  RETURN NULLIF(trim(split_part(
+    current_setting('request.headers', true)::json ->> 'x-forwarded-for', ',', 1
+  )), '')::INET;
+EXCEPTION WHEN OTHERS THEN
+  -- No request context (e.g. psql) or a malformed header
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Function to check whether the caller has guessed too many invite codes:
+-- 10 failures per user or 30 per IP address within 15 minutes
+CREATE OR REPLACE FUNCTION invite_attempts_exceeded()
+RETURNS BOOLEAN AS $$
+  SELECT (
+    SELECT COUNT(*) FROM public.invite_code_failures
+    WHERE user_id = auth.uid()
+      AND created_at > NOW() - INTERVAL '15 minutes'
+  ) >= 10
+  OR (
+    SELECT COUNT(*) FROM public.invite_code_failures
+    WHERE ip_address = request_ip()
+      AND created_at > NOW() - INTERVAL '15 minutes'
+  ) >= 30;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Function to record a failed invite lookup for the caller
+CREATE OR REPLACE FUNCTION record_invite_failure()
+RETURNS void AS $$
+  INSERT INTO public.invite_code_failures (user_id, ip_address)
+  VALUES (auth.uid(), request_ip());
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Throttling is only enforced through the invite RPCs
+REVOKE EXECUTE ON FUNCTION invite_attempts_exceeded() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_invite_failure() FROM PUBLIC, anon, authenticated;
+
+-- Function to join a group with an invite code, recording which invite was
+-- used. Groups that require approval get a pending join request instead,
+-- which an admin resolves with resolve_join_request(). Unknown, revoked,
+-- expired and used-up codes, archived groups and full groups (50 members,
+-- MAX_GROUP_MEMBERS in the client) all return the same 'invalid' result, so
+-- callers can't tell why a code failed; too many failures return
+-- 'rate_limited' instead. Failed attempts are recorded, so this returns a
+-- result rather than raising.
+CREATE OR REPLACE FUNCTION join_group_with_invite(code TEXT)
+RETURNS TABLE (
+  result TEXT, -- 'joined', 'pending', 'invalid' or 'rate_limited'
+  result_group_id UUID
+) AS $$
+DECLARE
+  invite public.group_invites;
+  needs_approval BOOLEAN;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Must be signed in to join groups';
+  END IF;
+
+  IF invite_attempts_exceeded() THEN
+    RETURN QUERY SELECT 'rate_limited'::TEXT, NULL::UUID;
+    RETURN;
+  END IF;
+
+  -- Lock the group too, so concurrent joins can't overshoot the member cap
+  SELECT i.* INTO invite
+  FROM public.group_invites i
+  JOIN public.groups g ON g.id = i.group_id
+  WHERE i.code = upper(join_group_with_invite.code)
+    AND g.status <> 'archived'
+  FOR UPDATE OF i, g;
+
+  IF invite.id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.group_members
+    WHERE group_id = invite.group_id AND user_id = auth.uid()
+  ) THEN
+    RETURN QUERY SELECT 'joined'::TEXT, invite.group_id;
+    RETURN;
+  END IF;
+
+  IF invite.id IS NULL
+    OR NOT is_invite_usable(invite)
+    OR (
+      SELECT COUNT(*) FROM public.group_members
+      WHERE group_id = invite.group_id
+    ) >= 50
+  THEN
+    PERFORM record_invite_failure();
+    RETURN QUERY SELECT 'invalid'::TEXT, NULL::UUID;
+    RETURN;
+  END IF;
+
+  SELECT require_approval INTO needs_approval
+  FROM public.groups
+  WHERE id = invite.group_id;
+
+  IF needs_approval THEN
+    -- Asking again while a request is pending is a no-op
+    INSERT INTO public.group_join_requests (group_id, user_id, invite_id)
+    VALUES (invite.group_id, auth.uid(), invite.id)
+    ON CONFLICT (group_id, user_id) WHERE status = 'pending' DO NOTHING;
+
+    RETURN QUERY SELECT 'pending'::TEXT, invite.group_id;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.group_members (group_id, user_id, role, joined_via_invite)
+  VALUES (invite.group_id, auth.uid(), 'member', invite.id);
+
+  UPDATE public.group_invites
+  SET use_count = use_count + 1
+  WHERE id = invite.id;
+
+  RETURN QUERY SELECT 'joined'::TEXT, invite.group_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to approve or reject a pending join request (admins only).
+-- Approving adds the member and counts the use against the invite that was
+-- presented with the request.
+CREATE OR REPLACE FUNCTION resolve_join_request(target_request_id UUID, approve BOOLEAN)
+RETURNS BOOLEAN AS $$
+DECLARE
+  request public.group_join_requests;
+BEGIN
+  SELECT * INTO request
+  FROM public.group_join_requests
+  WHERE id = target_request_id
+    AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT is_group_admin(request.group_id) THEN
+    RETURN FALSE;
+  END IF;
+
+  IF approve THEN
+    -- Same member cap as join_group_with_invite()
+    PERFORM 1 FROM public.groups WHERE id = request.group_id FOR UPDATE;
+    IF (
+      SELECT COUNT(*) FROM public.group_members
+      WHERE group_id = request.group_id
+    ) >= 50 THEN
+      RAISE EXCEPTION 'Group is full';
+    END IF;
+
+    INSERT INTO public.group_members (group_id, user_id, role, joined_via_invite)
+    VALUES (request.group_id, request.user_id, 'member', request.invite_id)
+    ON CONFLICT DO NOTHING;
+
+    UPDATE public.group_invites
+    SET use_count = use_count + 1
+    WHERE id = request.invite_id;
+  END IF;
+
+  UPDATE public.group_join_requests
+  SET status = CASE WHEN approve THEN 'approved' ELSE 'rejected' END,
+      resolved_at = NOW(),
+      resolved_by = auth.uid()
+  WHERE id = request.id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to look up a group by invite code before joining. Groups are
+-- otherwise only visible to members; this exposes just what the join screen
+-- shows, and nothing for unknown, expired or archived codes. Lookups count
+-- towards the same throttle as joins.
+CREATE OR REPLACE FUNCTION preview_group_by_invite(code TEXT)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  member_count BIGINT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  is_member BOOLEAN,
+  require_approval BOOLEAN,
+  has_pending_request BOOLEAN
+) AS $$
+BEGIN
+  IF invite_attempts_exceeded() THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    g.id,
+    g.name,
+    (SELECT COUNT(*) FROM public.group_members gm WHERE gm.group_id = g.id),
+    g.expires_at,
+    EXISTS (
+      SELECT 1 FROM public.group_members gm
+      WHERE gm.group_id = g.id AND gm.user_id = auth.uid()
+    ),
+    g.require_approval,
+    EXISTS (
+      SELECT 1 FROM public.group_join_requests r
+      WHERE r.group_id = g.id AND r.user_id = auth.uid() AND r.status = 'pending'
+    )
+  FROM public.group_invites i
+  JOIN public.groups g ON g.id = i.group_id
+  WHERE i.code = upper(preview_group_by_invite.code)
+    AND g.status <> 'archived'
+    AND is_invite_usable(i);
+
+  IF NOT FOUND THEN
+    PERFORM record_invite_failure();
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to advance the current user's read cursor to a message.
+-- The cursor only moves forward, so out-of-order calls are harmless.
+CREATE OR REPLACE FUNCTION mark_messages_read(target_message_id UUID)
+RETURNS VOID AS $$
+  UPDATE public.group_members gm
+  SET last_read_message_id = m.id,
+      last_read_at = m.created_at
+  FROM public.messages m
+  WHERE m.id = target_message_id
+    AND gm.group_id = m.group_id
+    AND gm.user_id = auth.uid()
+    AND (gm.last_read_at IS NULL OR gm.last_read_at < m.created_at);
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Function to record when the current user was last active
+CREATE OR REPLACE FUNCTION touch_last_seen()
+RETURNS VOID AS $$
+  UPDATE public.users
+  SET last_seen_at = NOW()
+  WHERE id = auth.uid();
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Function to clear the current user's unread count for a group
+CREATE OR REPLACE FUNCTION mark_group_read(target_group_id UUID)
+RETURNS VOID AS $$
+  UPDATE public.group_unread_counts
+  SET unread_count = 0
+  WHERE group_id = target_group_id
+    AND user_id = auth.uid()
+    AND unread_count <> 0;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Extension limits: at most 3 extensions, never past 30 days after creation
+-- (the longest lifespan CreateGroupScreen allows)
+
+-- Function to settle an extension proposal once the votes decide it.
+-- Quorum groups need ceil(members * extension_quorum) approvals; admin
+-- approval groups are settled by the first admin vote.
+CREATE OR REPLACE FUNCTION resolve_extension_proposal(target_proposal_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  proposal public.group_extension_proposals%ROWTYPE;
+  target_group public.groups%ROWTYPE;
+  member_count INTEGER;
+  required_votes INTEGER;
+  approvals INTEGER;
+  rejections INTEGER;
+  outcome TEXT := 'open';
+BEGIN
+  SELECT * INTO proposal
+  FROM public.group_extension_proposals
+  WHERE id = target_proposal_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR proposal.status <> 'open' THEN
+    RETURN proposal.status;
+  END IF;
+
+  SELECT * INTO target_group
+  FROM public.groups
+  WHERE id = proposal.group_id
+  FOR UPDATE;
+
+  IF target_group.status = 'archived' THEN
+    outcome := 'expired';
+  ELSIF target_group.extension_approval = 'admin' THEN
+    SELECT
+      COUNT(*) FILTER (WHERE v.approve),
+      COUNT(*) FILTER (WHERE NOT v.approve)
+    INTO approvals, rejections
+    FROM public.group_extension_votes v
+    JOIN public.group_members gm
+      ON gm.group_id = v.group_id AND gm.user_id = v.user_id
+    WHERE v.proposal_id = proposal.id AND gm.role = 'admin';
+
+    IF approvals > 0 THEN
+      outcome := 'approved';
+    ELSIF rejections > 0 THEN
+      outcome := 'rejected';
+    END IF;
+  ELSE
+    SELECT COUNT(*) INTO member_count
+    FROM public.group_members
+    WHERE group_id = proposal.group_id;
+
+    required_votes := CEIL(member_count * target_group.extension_quorum);
+
+    SELECT
+      COUNT(*) FILTER (WHERE approve),
+      COUNT(*) FILTER (WHERE NOT approve)
+    INTO approvals, rejections
+    FROM public.group_extension_votes
+    WHERE proposal_id = proposal.id;
+
+    IF approvals >= required_votes THEN
+      outcome := 'approved';
+    ELSIF member_count - rejections < required_votes THEN
+      -- The remaining members can no longer reach the quorum
+      outcome := 'rejected';
+    END IF;
+  END IF;
+
+  IF outcome = 'approved' THEN
+    -- Back to active so the expiring state (and its warnings) can recur
+    UPDATE public.groups
+    SET expires_at = LEAST(
+          expires_at + make_interval(hours => proposal.extension_hours),
+          created_at + INTERVAL '30 days'
+        ),
+        status = 'active',
+        extension_count = extension_count + 1
+    WHERE id = proposal.group_id;
+  END IF;
+
+  IF outcome <> 'open' THEN
+    UPDATE public.group_extension_proposals
+    SET status = outcome,
+        resolved_at = NOW()
+    WHERE id = proposal.id;
+  END IF;
+
+  RETURN outcome;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION resolve_extension_proposal(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Function to propose extending an expiring group; the proposer votes yes
+CREATE OR REPLACE FUNCTION propose_group_extension(target_group_id UUID, hours INTEGER)
+RETURNS UUID AS $$
+DECLARE
+  target_group public.groups%ROWTYPE;
+  new_proposal_id UUID;
+BEGIN
+  SELECT * INTO target_group FROM public.groups WHERE id = target_group_id;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM public.group_members
+    WHERE group_id = target_group_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this group';
+  END IF;
+
+  IF NOT target_group.allow_extension THEN
+    RAISE EXCEPTION 'Extensions are disabled for this group';
+  END IF;
+
+  IF target_group.status <> 'expiring' THEN
+    RAISE EXCEPTION 'Extensions can only be proposed while a group is expiring';
+  END IF;
+
+  IF target_group.extension_count >= 3
+    OR target_group.expires_at >= target_group.created_at + INTERVAL '30 days' THEN
+    RAISE EXCEPTION 'Extension limit reached';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.group_extension_proposals
+    WHERE group_id = target_group_id AND status = 'open'
+  ) THEN
+    RAISE EXCEPTION 'An extension proposal is already open';
+  END IF;
+
+  INSERT INTO public.group_extension_proposals (group_id, proposed_by, extension_hours)
+  VALUES (target_group_id, auth.uid(), hours)
+  RETURNING id INTO new_proposal_id;
+
+  INSERT INTO public.group_extension_votes (proposal_id, group_id, user_id, approve)
+  VALUES (new_proposal_id, target_group_id, auth.uid(), TRUE);
+
+  PERFORM resolve_extension_proposal(new_proposal_id);
+
+  RETURN new_proposal_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to vote on an open extension proposal; returns its status
+CREATE OR REPLACE FUNCTION vote_on_extension(target_proposal_id UUID, approve BOOLEAN)
+RETURNS TEXT AS $$
+DECLARE
+  proposal public.group_extension_proposals%ROWTYPE;
+BEGIN
+  SELECT * INTO proposal
+  FROM public.group_extension_proposals
+  WHERE id = target_proposal_id;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM public.group_members
+    WHERE group_id = proposal.group_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this group';
+  END IF;
+
+  IF proposal.status <> 'open' THEN
+    RETURN proposal.status;
+  END IF;
+
+  INSERT INTO public.group_extension_votes (proposal_id, group_id, user_id, approve)
+  VALUES (proposal.id, proposal.group_id, auth.uid(), vote_on_extension.approve)
+  ON CONFLICT (proposal_id, user_id)
+  DO UPDATE SET approve = EXCLUDED.approve, created_at = NOW();
+
+  RETURN resolve_extension_proposal(proposal.id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to load the current user's groups in one round trip, with
+-- members, last message, message count and unread count aggregated.
+-- Active groups are always returned; archived groups are paginated.
+CREATE OR REPLACE FUNCTION get_user_groups(
+  include_active BOOLEAN DEFAULT TRUE,
+  archived_limit INTEGER DEFAULT 20,
+  archived_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  inactivity_threshold INTEGER,
+  message_limit INTEGER,
+  status TEXT,
+  invite_code TEXT,
+  invite_code_expires_at TIMESTAMP WITH TIME ZONE,
+  disbanded_at TIMESTAMP WITH TIME ZONE,
+  disband_reason TEXT,
+  archived_until TIMESTAMP WITH TIME ZONE,
+  last_activity TIMESTAMP WITH TIME ZONE,
+  warn_before_expiry BOOLEAN,
+  allow_extension BOOLEAN,
+  extension_approval TEXT,
+  extension_quorum NUMERIC,
+  extension_count INTEGER,
+  require_approval BOOLEAN,
+  unread_count INTEGER,
+  muted_until TIMESTAMP WITH TIME ZONE,
+  message_count BIGINT,
+  members JSONB,
+  last_message JSONB
+) AS $$
+  WITH my_groups AS (
+    SELECT g.*,
+      COALESCE(uc.unread_count, 0) AS member_unread_count,
+      gm.muted_until AS member_muted_until
+    FROM public.groups g
+    JOIN public.group_members gm ON gm.group_id = g.id
+    LEFT JOIN public.group_unread_counts uc
+      ON uc.group_id = gm.group_id AND uc.user_id = gm.user_id
+    WHERE gm.user_id = auth.uid()
+  ),
+  selected_groups AS (
+    (
+      SELECT * FROM my_groups
+      WHERE include_active AND my_groups.status <> 'archived'
+    )
+    UNION ALL
+    (
+      SELECT * FROM my_groups
+      WHERE my_groups.status = 'archived'
+      ORDER BY my_groups.disbanded_at DESC NULLS LAST, my_groups.id
+      LIMIT archived_limit OFFSET archived_offset
+    )
+  )
+  SELECT
+    sg.id,
+    sg.name,
+    sg.description,
+    sg.created_by,
+    sg.created_at,
+    sg.updated_at,
+    sg.expires_at,
+    sg.inactivity_threshold,
+    sg.message_limit,
+    sg.status,
+    default_invite.code,
+    default_invite.expires_at,
+    sg.disbanded_at,
+    sg.disband_reason,
+    sg.archived_until,
+    sg.last_activity,
+    sg.warn_before_expiry,
+    sg.allow_extension,
+    sg.extension_approval,
+    sg.extension_quorum,
+    sg.extension_count,
+    sg.require_approval,
+    sg.member_unread_count,
+    sg.member_muted_until,
+    (
+      SELECT COUNT(*) FROM public.messages m
+      WHERE m.group_id = sg.id AND NOT m.uploading
+    ),
+    COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', u.id,
+          'display_name', u.display_name,
+          'avatar_url', u.avatar_url,
+          'last_seen_at', CASE WHEN u.hide_last_seen THEN NULL ELSE u.last_seen_at END,
+          'role', gm.role
+        )
+        ORDER BY gm.joined_at
+      )
+      FROM public.group_members gm
+      JOIN public.users u ON u.id = gm.user_id
+      WHERE gm.group_id = sg.id
+    ), '[]'::jsonb),
+    (
+      SELECT jsonb_build_object(
+        'id', m.id,
+        'content', m.content,
+        'created_at', m.created_at,
+        'user_id', m.user_id,
+        'deleted_at', m.deleted_at,
+        'display_name', u.display_name
+      )
+      FROM public.messages m
+      LEFT JOIN public.users u ON u.id = m.user_id
+      WHERE m.group_id = sg.id AND NOT m.uploading
+      ORDER BY m.created_at DESC
+      LIMIT 1
+    )
+  FROM selected_groups sg
+  LEFT JOIN LATERAL (
+    SELECT i.code, i.expires_at
+    FROM public.group_invites i
+    WHERE i.group_id = sg.id AND i.is_default AND is_invite_usable(i)
+  ) default_invite ON TRUE
+  ORDER BY sg.last_activity DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
 
 -- Function to update timestamps
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -303,6 +1506,26 @@ CREATE TRIGGER trigger_update_messages_updated_at
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at_column();
 
--- Create a scheduled job to process expired groups (requires pg_cron extension)
--- This would typically be set up in the Supabase dashboard
--- SELECT cron.schedule('process-expired-groups', '*/5 * * * *', 'SELECT process_expired_groups();');
\ No newline at end of file
+-- The scheduled job that calls process_expired_groups() lives in cron.sql
+
+-- Realtime: broadcast reaction changes (removals are updates of removed_at)
+ALTER PUBLICATION supabase_realtime ADD TABLE public.message_reactions;
+
+-- Realtime: broadcast attachments as their uploads finish
+ALTER PUBLICATION supabase_realtime ADD TABLE public.attachments;
+
+-- Realtime: broadcast group status changes so open clients see archiving
+ALTER PUBLICATION supabase_realtime ADD TABLE public.groups;
+
+-- Realtime: broadcast extension proposals and votes for in-chat polls
+ALTER PUBLICATION supabase_realtime ADD TABLE public.group_extension_proposals;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.group_extension_votes;
+
+-- Realtime: broadcast join requests to admins and to the requester
+ALTER PUBLICATION supabase_realtime ADD TABLE public.group_join_requests;
+
+-- Realtime: broadcast read cursor changes
+ALTER PUBLICATION supabase_realtime ADD TABLE public.group_members;
+
+-- Realtime: broadcast unread counts, each only to its own member
+ALTER PUBLICATION supabase_realtime ADD TABLE public.group_unread_counts;